@@ -0,0 +1,297 @@
+import { ACustomComponentEvent, AElementComponentWithInternalUI, ComponentFactory } from "@vanilla-ts/core";
+import { Div } from "@vanilla-ts/dom";
+import { DiscloseEvent, DisclosureContainer } from "./DisclosureContainer.js";
+
+
+/**
+ * Mode of an accordion.
+ */
+export enum AccordionMode {
+    // Only one section can be open, opening a section closes the open section.
+    SINGLE = 0,
+    // Any number of sections can be open.
+    MULTIPLE,
+}
+
+/**
+ * Custom 'openchange' event for accordions.
+ */
+export class AccordionOpenChangeEvent<D extends object = {
+    /** The indices of the open sections (see `Accordion.Value`). */
+    Value: number[];
+}> extends ACustomComponentEvent<"openchange", Accordion, D> { }
+
+/**
+ * Additional event(s) for `Accordion`.
+ */
+export interface AccordionEventMap extends HTMLElementEventMap {
+    /** The set of open sections changed. */
+    "openchange": AccordionOpenChangeEvent;
+}
+
+/**
+ * Group of disclosure containers (sections), that are opened/closed in coordination. In `SINGLE`
+ * mode opening a section closes the open section, optionally at least one section stays open. In
+ * `MULTIPLE` mode the sections are independent, but can be opened/closed together.\
+ * The accordion handles the cancelable `disclose` event of its sections when it bubbles up to the
+ * accordion, so handlers of the app on the sections can still prevent opening/closing a section
+ * before the accordion closes other sections. If the open section in `SINGLE` mode can't be
+ * closed, the other section isn't opened.
+ */
+export class Accordion<EventMap extends AccordionEventMap = AccordionEventMap> extends AElementComponentWithInternalUI<Div, EventMap> {
+    protected sections: DisclosureContainer[] = [];
+    protected _mode: AccordionMode;
+    protected _allowAllClosed: boolean;
+    // Sections opened/closed by the accordion itself aren't checked.
+    private arranging = false;
+    private pendingChange = false;
+    private lastValue: number[] = [];
+
+    /**
+     * Creates an accordion without sections.
+     * @param mode The mode of the accordion.
+     * @param allowAllClosed If `true` (default), all sections can be closed in `SINGLE` mode,
+     * otherwise one section stays open.
+     */
+    constructor(mode: AccordionMode = AccordionMode.SINGLE, allowAllClosed: boolean = true) {
+        super();
+        this._mode = mode;
+        this._allowAllClosed = allowAllClosed;
+        super.initialize();
+    }
+
+    /** @inheritdoc */
+    protected override buildUI(): this {
+        this.ui = new Div();
+        // Bubbling, so the handlers on the sections have already been invoked.
+        this.ui.DOM.addEventListener("disclose", (ev) => this.onDisclose(<DiscloseEvent>ev));
+        return this;
+    }
+
+    /**
+     * Get the sections of the accordion.
+     */
+    public get Sections(): DisclosureContainer[] {
+        return this.sections.slice(0);
+    }
+
+    /**
+     * Get/set the mode of the accordion.
+     */
+    public get Mode(): AccordionMode {
+        return this._mode;
+    }
+    /** @inheritdoc */
+    public set Mode(v: AccordionMode) {
+        this.mode(v);
+    }
+
+    /**
+     * Sets the mode of the accordion. Switching to `SINGLE` mode closes all open sections except
+     * the first one.
+     * @param mode The new mode.
+     * @returns This instance.
+     */
+    public mode(mode: AccordionMode): this {
+        this._mode = mode;
+        this.arrange();
+        return this;
+    }
+
+    /**
+     * Get/set whether all sections can be closed in `SINGLE` mode.
+     */
+    public get AllowAllClosed(): boolean {
+        return this._allowAllClosed;
+    }
+    /** @inheritdoc */
+    public set AllowAllClosed(v: boolean) {
+        this.allowAllClosed(v);
+    }
+
+    /**
+     * Sets whether all sections can be closed in `SINGLE` mode. If not, and no section is open, the
+     * first section is opened.
+     * @param allowAllClosed `true`, if all sections can be closed, otherwise `false`.
+     * @returns This instance.
+     */
+    public allowAllClosed(allowAllClosed: boolean): this {
+        this._allowAllClosed = allowAllClosed;
+        this.arrange();
+        return this;
+    }
+
+    /**
+     * Get/set the indices of the open sections (in ascending order). In `SINGLE` mode only the first
+     * index is used when setting the value.
+     */
+    public get Value(): number[] {
+        return this.sections.reduce<number[]>((value, section, i) => section.Disclosed ? [...value, i] : value, []);
+    }
+    /** @inheritdoc */
+    public set Value(v: number[]) {
+        this.value(v);
+    }
+
+    /**
+     * Opens the sections with the given indices and closes all others. Handlers of the `disclose`
+     * event of the sections can still prevent this.
+     * @param value The indices of the sections to be opened.
+     * @returns This instance.
+     */
+    public value(value: number[]): this {
+        const open = this._mode === AccordionMode.SINGLE ? value.slice(0, 1) : value;
+        // Close first, so that the checks of `SINGLE` mode don't interfere.
+        this.sections.forEach((section, i) => open.includes(i) ? undefined : section.disclosed(false));
+        this.sections.forEach((section, i) => open.includes(i) ? section.disclosed(true) : undefined);
+        return this;
+    }
+
+    /**
+     * Opens all sections (`MULTIPLE` mode only).
+     * @returns This instance.
+     */
+    public expandAll(): this {
+        this._mode === AccordionMode.MULTIPLE
+            ? this.sections.forEach(e => e.disclosed(true))
+            : undefined;
+        return this;
+    }
+
+    /**
+     * Closes all sections. In `SINGLE` mode without `AllowAllClosed` the open section stays open.
+     * @returns This instance.
+     */
+    public collapseAll(): this {
+        this.sections.forEach(e => e.disclosed(false));
+        return this;
+    }
+
+    /**
+     * Appends sections to the accordion.
+     * @param sections The sections to be appended. Sections, that are already part of the
+     * accordion, are ignored.
+     * @returns This instance.
+     */
+    public append(...sections: DisclosureContainer[]): this {
+        return this.insert(this.sections.length, ...sections);
+    }
+
+    /**
+     * Inserts sections into the accordion.
+     * @param at The target index. If `at` is greater than or equal to the number of sections, the
+     * sections are appended.
+     * @param sections The sections to be inserted. Sections, that are already part of the
+     * accordion, are ignored.
+     * @returns This instance.
+     */
+    public insert(at: number, ...sections: DisclosureContainer[]): this {
+        const newSections = [...new Set(sections)].filter(e => !this.sections.includes(e));
+        if (newSections.length === 0) {
+            return this;
+        }
+        at = Math.max(0, Math.min(at, this.sections.length));
+        at < this.sections.length
+            ? this.ui.insert(this.sections[at], ...newSections)
+            : this.ui.append(...newSections);
+        this.sections.splice(at, 0, ...newSections);
+        this.arrange();
+        return this;
+    }
+
+    /**
+     * Removes sections from the accordion (without disposing them).
+     * @param sections The sections to be removed. If the length of `sections` is `0`, _all_
+     * sections are removed.
+     * @returns This instance.
+     */
+    public remove(...sections: DisclosureContainer[]): this {
+        const sectionsToRemove = sections.length === 0
+            ? this.sections.slice(0)
+            : this.sections.filter(e => sections.includes(e));
+        this.sections = this.sections.filter(e => !sectionsToRemove.includes(e));
+        this.ui.remove(...sectionsToRemove);
+        this.arrange();
+        return this;
+    }
+
+    /**
+     * Handles the `disclose` event of a section (or of a nested disclosure container) after it
+     * bubbled up to the accordion.
+     * @param ev The `disclose` event.
+     */
+    protected onDisclose(ev: DiscloseEvent): void {
+        const section = this.sections.find(e => e.DOM === ev.target);
+        // Events of nested disclosure containers bubble up, prevented events don't change anything.
+        if (!section || ev.defaultPrevented || this.arranging || this._mode === AccordionMode.MULTIPLE) {
+            this.scheduleChange();
+            return;
+        }
+        if (ev.detail.Disclosed) {
+            // Close the open section(s), if this isn't possible, don't open `section`.
+            this.arranging = true;
+            const blocked = this.sections.some(e => e !== section && e.disclosed(false).Disclosed);
+            this.arranging = false;
+            blocked
+                ? ev.preventDefault()
+                : undefined;
+        } else if (!this._allowAllClosed && !this.sections.some(e => e !== section && e.Disclosed)) {
+            ev.preventDefault();
+        }
+        this.scheduleChange();
+    }
+
+    /**
+     * Enforces the rules of `SINGLE` mode: only the first open section stays open and, if not all
+     * sections can be closed, the first section is opened if no section is open.
+     */
+    protected arrange(): void {
+        if (this._mode === AccordionMode.SINGLE) {
+            this.arranging = true;
+            const open = this.sections.find(e => e.Disclosed);
+            this.sections.forEach(e => e === open ? undefined : e.disclosed(false));
+            !open && !this._allowAllClosed
+                ? this.sections[0]?.disclosed(true)
+                : undefined;
+            this.arranging = false;
+        }
+        this.scheduleChange();
+    }
+
+    /**
+     * Dispatches an `openchange` event after the current task, if the open sections changed. The
+     * `disclose` event of a section is dispatched before its state changes, so the check is
+     * deferred.
+     */
+    private scheduleChange(): void {
+        if (this.pendingChange) {
+            return;
+        }
+        this.pendingChange = true;
+        queueMicrotask(() => {
+            this.pendingChange = false;
+            const value = this.Value;
+            if (value.length !== this.lastValue.length || value.some((e, i) => e !== this.lastValue[i])) {
+                this.lastValue = value;
+                this._dom.dispatchEvent(new AccordionOpenChangeEvent("openchange", this, { Value: value })); // eslint-disable-line jsdoc/require-jsdoc
+            }
+        });
+    }
+}
+
+/**
+ * Factory for Accordion components.
+ */
+export class AccordionFactory<T> extends ComponentFactory<Accordion> {
+    /**
+     * Create, set up and return Accordion component.
+     * @param mode The mode of the accordion.
+     * @param allowAllClosed If `true` (default), all sections can be closed in `SINGLE` mode,
+     * otherwise one section stays open.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns Accordion component.
+     */
+    public accordion(mode?: AccordionMode, allowAllClosed?: boolean, data?: T): Accordion {
+        return this.setupComponent(new Accordion(mode, allowAllClosed), data);
+    }
+}
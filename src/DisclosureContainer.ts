@@ -18,6 +18,29 @@ export enum DisclosureContainerAppearance {
     LEFT_TOP,
 }
 
+/**
+ * Indicator of the disclosure button.
+ */
+export enum DisclosureIndicator {
+    // The captions of the labels (see `DisclosureContainerLabels`), the theme may replace them by
+    // arrows.
+    CAPTIONS = 0,
+    // A chevron, that rotates when the state changes (see CSS).
+    CHEVRON,
+}
+
+/**
+ * Counter for generating unique ids for headers and contents (`aria-controls`,
+ * `aria-labelledby`).
+ */
+let disclosureIdCounter = 0;
+
+/**
+ * Elements inside the header content, that handle pointer and keyboard input themselves (see
+ * `DisclosureContainer.HeaderActivation`).
+ */
+const INTERACTIVE_ELEMENTS = "a[href], button, input, select, textarea, label, summary, [contenteditable=''], [contenteditable='true'], [tabindex]";
+
 /**
  * Captions and titles (tooltips) for the disclosure button.
  */
@@ -44,6 +67,14 @@ export class DiscloseEvent<D extends object = {
     Disclosed: boolean;
 }> extends ACustomComponentEvent<"disclose", DisclosureContainer, D> { }
 
+/**
+ * Custom 'disclosed' event for disclosure containers.
+ */
+export class DisclosedEvent<D extends object = {
+    /** `true`, if the disclosure container is disclosed, otherwise `false`. */
+    Disclosed: boolean;
+}> extends ACustomComponentEvent<"disclosed", DisclosureContainer, D> { }
+
 /**
  * Additional event(s) for `DisclosureContainer`.
  */
@@ -53,6 +84,11 @@ export interface DisclosureContainerEventMap extends HTMLElementEventMap {
      * `Disclosed` state by calling `preventDefault()`.
      */
     "disclose": DiscloseEvent;
+    /**
+     * The `Disclosed` state of a disclosure container has changed, if the change is animated (see
+     * `Animated`) the event is dispatched after the animation. This event can't be canceled.
+     */
+    "disclosed": DisclosedEvent;
 }
 
 /**
@@ -66,6 +102,11 @@ export class DisclosureContainer<EventMap extends DisclosureContainerEventMap =
     protected _disclosed: boolean;
     protected _appearance: DisclosureContainerAppearance;
     protected _labels: DisclosureContainerLabels;
+    protected _headerActivation = false;
+    protected _indicator = DisclosureIndicator.CAPTIONS;
+    protected _animated = false;
+    protected _animationDuration = 200;
+    private contentAnimation?: Animation;
 
     /**
      * Creates a disclosure container.
@@ -214,22 +255,211 @@ export class DisclosureContainer<EventMap extends DisclosureContainerEventMap =
             if (!this._dom.dispatchEvent(new DiscloseEvent("disclose", this, { Disclosed: disclosed }))) { // eslint-disable-line jsdoc/require-jsdoc
                 return this;
             }
-            this._disclosed = disclosed;
-            if (this._disclosed) {
-                this.removeClass("undisclosed");
-                this.addClass("disclosed");
-                this.discloseButton.Text = this._labels.Captions[1];
-                this.discloseButton.Title = this._labels.Titles[1];
-            } else {
-                this.removeClass("disclosed");
-                this.addClass("undisclosed");
-                this.discloseButton.Text = this._labels.Captions[0];
-                this.discloseButton.Title = this._labels.Titles[0];
-            }
+            // Size of the content before the change (also in the middle of an animation).
+            const from = this.contentSize();
+            this.contentAnimation?.cancel();
+            this.contentAnimation = undefined;
+            this.removeClass("animating");
+            this.disclosedState(disclosed);
+            this._animated && !matchMedia("(prefers-reduced-motion: reduce)").matches
+                ? this.animateContent(from)
+                : this._dom.dispatchEvent(new DisclosedEvent("disclosed", this, { Disclosed: this._disclosed })); // eslint-disable-line jsdoc/require-jsdoc
+        }
+        return this;
+    }
+
+    /**
+     * Sets the disclosed state and updates the classes, the disclosure button and the ARIA
+     * attributes accordingly.
+     * @param disclosed `true`, if the disclosure container is disclosed, otherwise `false`.
+     */
+    protected disclosedState(disclosed: boolean): void {
+        this._disclosed = disclosed;
+        this.discloseButton.attrib("aria-expanded", String(this._disclosed));
+        this._headerActivation
+            ? this.headerContent.attrib("aria-expanded", String(this._disclosed))
+            : undefined;
+        if (this._disclosed) {
+            this.removeClass("undisclosed");
+            this.addClass("disclosed");
+            this.discloseButton.Text = this._labels.Captions[1];
+            this.discloseButton.Title = this._labels.Titles[1];
+        } else {
+            this.removeClass("disclosed");
+            this.addClass("undisclosed");
+            this.discloseButton.Text = this._labels.Captions[0];
+            this.discloseButton.Title = this._labels.Titles[0];
+        }
+    }
+
+    /**
+     * Get/set whether the whole header toggles the `Disclosed` state. A click on the header
+     * content toggles the state and the header content becomes the keyboard control (`Enter`,
+     * `Space`) instead of the disclosure button. Interactive elements inside the header content
+     * (buttons, inputs, links etc.) keep their regular behavior, clicks and key presses on them
+     * don't toggle the state.
+     */
+    public get HeaderActivation(): boolean {
+        return this._headerActivation;
+    }
+    /** @inheritdoc */
+    public set HeaderActivation(v: boolean) {
+        this.headerActivation(v);
+    }
+
+    /**
+     * Enables/disables toggling the `Disclosed` state by the header.
+     * @param headerActivation `true`, if the header toggles the state, otherwise `false`.
+     * @returns This instance.
+     */
+    public headerActivation(headerActivation: boolean): this {
+        this._headerActivation = headerActivation;
+        if (this._headerActivation) {
+            this.headerContainer.addClass("clickable");
+            this.headerContent
+                .attrib("role", "button")
+                .attrib("tabindex", "0")
+                .attrib("aria-expanded", String(this._disclosed))
+                .attrib("aria-controls", this.contentContainer.DOM.id);
+            // The disclosure button is only an indicator now, the header content is the control.
+            this.discloseButton
+                .attrib("tabindex", "-1")
+                .attrib("aria-hidden", "true");
+        } else {
+            this.headerContainer.removeClass("clickable");
+            ["role", "tabindex", "aria-expanded", "aria-controls"].forEach(e => this.headerContent.DOM.removeAttribute(e));
+            ["tabindex", "aria-hidden"].forEach(e => this.discloseButton.DOM.removeAttribute(e));
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the indicator of the disclosure button.
+     */
+    public get Indicator(): DisclosureIndicator {
+        return this._indicator;
+    }
+    /** @inheritdoc */
+    public set Indicator(v: DisclosureIndicator) {
+        this.indicator(v);
+    }
+
+    /**
+     * Sets the indicator of the disclosure button. The captions of the labels remain the text of
+     * the button (for assistive technology), with `CHEVRON` they are hidden by CSS.
+     * @param indicator The new indicator.
+     * @returns This instance.
+     */
+    public indicator(indicator: DisclosureIndicator): this {
+        this._indicator = indicator;
+        this._indicator === DisclosureIndicator.CHEVRON
+            ? this.ui.addClass("chevron")
+            : this.ui.removeClass("chevron");
+        return this;
+    }
+
+    /**
+     * Toggles the `Disclosed` state on a click on the header content (see `HeaderActivation`).
+     * @param ev The mouse event.
+     */
+    protected onHeaderClick(ev: MouseEvent): void {
+        const interactive = (<Element>ev.target).closest(INTERACTIVE_ELEMENTS);
+        if (this._headerActivation
+            && (!interactive || interactive === this.headerContent.DOM || !this.headerContent.DOM.contains(interactive))
+        ) {
+            this.toggleDisclosed();
+        }
+    }
+
+    /**
+     * Toggles the `Disclosed` state on `Enter`/`Space`, if the header content has the focus (see
+     * `HeaderActivation`).
+     * @param ev The keyboard event.
+     */
+    protected onHeaderKeyDown(ev: KeyboardEvent): void {
+        if (this._headerActivation && ev.target === this.headerContent.DOM && (ev.key === "Enter" || ev.key === " ")) {
+            ev.preventDefault();
+            this.toggleDisclosed();
         }
+    }
+
+    /**
+     * Get/set whether disclosing/undisclosing is animated. The height (`TOP_*`/`BOTTOM_*`) or the
+     * width (`LEFT_*`/`RIGHT_*`) of the content changes from its current to its target size. Toggling
+     * the state during an animation reverses the animation from the current size. Animations are
+     * disabled if the user prefers reduced motion.
+     */
+    public get Animated(): boolean {
+        return this._animated;
+    }
+    /** @inheritdoc */
+    public set Animated(v: boolean) {
+        this.animated(v);
+    }
+
+    /**
+     * Get/set the duration in milliseconds of the animation (see `Animated`).
+     */
+    public get AnimationDuration(): number {
+        return this._animationDuration;
+    }
+    /** @inheritdoc */
+    public set AnimationDuration(v: number) {
+        this.animated(this._animated, v);
+    }
+
+    /**
+     * Enables/disables the animation of disclosing/undisclosing.
+     * @param animated `true`, if disclosing/undisclosing is animated, otherwise `false`.
+     * @param duration The duration in milliseconds of the animation.
+     * @returns This instance.
+     */
+    public animated(animated: boolean, duration: number = this._animationDuration): this {
+        this._animated = animated;
+        this._animationDuration = duration;
         return this;
     }
 
+    /**
+     * `true`, if the content is animated horizontally (the width changes), otherwise `false`.
+     */
+    protected get horizontal(): boolean {
+        return this._appearance === DisclosureContainerAppearance.LEFT_TOP
+            || this._appearance === DisclosureContainerAppearance.LEFT_BOTTOM
+            || this._appearance === DisclosureContainerAppearance.RIGHT_TOP
+            || this._appearance === DisclosureContainerAppearance.RIGHT_BOTTOM;
+    }
+
+    /**
+     * Returns the current rendered size of the content.
+     * @returns The height or width (see `horizontal`) in pixels, `0` if the content isn't displayed.
+     */
+    protected contentSize(): number {
+        const rect = this.contentContainer.DOM.getBoundingClientRect();
+        return this.horizontal ? rect.width : rect.height;
+    }
+
+    /**
+     * Animates the size of the content from `from` to the size of the current state. While
+     * animating, the content is displayed (also if undisclosed) and clipped (see CSS).
+     * @param from The size in pixels at the start of the animation.
+     */
+    protected animateContent(from: number): void {
+        this.addClass("animating");
+        const to = this._disclosed ? this.contentSize() : 0;
+        const property = this.horizontal ? "width" : "height";
+        const animation = this.contentContainer.DOM.animate(
+            [{ [property]: `${from}px` }, { [property]: `${to}px` }], // eslint-disable-line jsdoc/require-jsdoc
+            { duration: this._animationDuration, easing: "ease-in-out" } // eslint-disable-line jsdoc/require-jsdoc
+        );
+        this.contentAnimation = animation;
+        animation.onfinish = (): void => { // eslint-disable-line jsdoc/require-jsdoc
+            this.contentAnimation = undefined;
+            this.removeClass("animating");
+            this._dom.dispatchEvent(new DisclosedEvent("disclosed", this, { Disclosed: this._disclosed })); // eslint-disable-line jsdoc/require-jsdoc
+        };
+    }
+
     /**
      * Toggle the `Disclosed` state of this this component.
      * @returns This instance.
@@ -300,6 +530,7 @@ export class DisclosureContainer<EventMap extends DisclosureContainerEventMap =
      * @returns This instance.
      */
     protected buildUI(): this {
+        const id = `vts-disclosure-${++disclosureIdCounter}`;
         this.ui = new Div()
             .append(
                 this.headerContainer = new Div()
@@ -307,13 +538,19 @@ export class DisclosureContainer<EventMap extends DisclosureContainerEventMap =
                     .append(
                         this.discloseButton = new Button("")
                             .addClass("disclose")
+                            .attrib("aria-controls", `${id}-content`)
                             .on("click", () => this.Disclosed = !this.Disclosed),
                         this.headerContent = new Div()
                             .addClass("header-content")
-                        // .on("pointerup", (_ev: PointerEvent) => this.Disclosed = !this.Disclosed),
+                            .attrib("id", `${id}-header`)
+                            .on("click", (ev) => this.onHeaderClick(ev))
+                            .on("keydown", (ev) => this.onHeaderKeyDown(ev))
                     ),
                 this.contentContainer = new Div()
-                    .addClass("content-container"),
+                    .addClass("content-container")
+                    .attrib("id", `${id}-content`)
+                    .attrib("role", "region")
+                    .attrib("aria-labelledby", `${id}-header`),
             );
         return this;
     }
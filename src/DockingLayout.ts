@@ -0,0 +1,560 @@
+import { AElementComponentWithInternalUI, ComponentFactory } from "@vanilla-ts/core";
+import { Div } from "@vanilla-ts/dom";
+import { Tab, TabDropEdge, TabGroup, TabGroupSnapshot, TabRegistry } from "./TabGroup.js";
+
+
+/**
+ * Orientation of a split in a docking layout.
+ */
+export enum DockingOrientation {
+    // The panes of the split are placed side by side.
+    HORIZONTAL = 0,
+    // The panes of the split are placed one below the other.
+    VERTICAL,
+}
+
+/**
+ * JSON-serializable description of a pane of a docking layout, that hosts a tab group.
+ */
+export type DockingPaneSnapshot = {
+    /** The snapshot of the tab group of the pane. */
+    Group: TabGroupSnapshot;
+};
+
+/**
+ * JSON-serializable description of a split of a docking layout.
+ */
+export type DockingSplitSnapshot = {
+    /** The orientation of the split. */
+    Orientation: DockingOrientation;
+    /** The relative sizes of the children (the sum of all sizes is `1`). */
+    Sizes: number[];
+    /** The children of the split (panes or nested splits). */
+    Children: DockingLayoutSnapshot[];
+};
+
+/**
+ * JSON-serializable description of a docking layout (or a part of it).
+ */
+export type DockingLayoutSnapshot = DockingPaneSnapshot | DockingSplitSnapshot;
+
+/**
+ * A function which is called for every tab group created by a docking layout, e.g. for setting the
+ * appearance or listening to events.
+ */
+export type DockingGroupSetup = (group: TabGroup) => void;
+
+/**
+ * A split of the layout tree, panes are represented by their tab group.
+ */
+type DockingSplit = {
+    /** The orientation of the split. */
+    Orientation: DockingOrientation;
+    /** The relative sizes of the children (the sum of all sizes is `1`). */
+    Sizes: number[];
+    /** The children of the split. */
+    Children: DockingNode[];
+    /** The splitters between the children, `Splitters[i]` is between `Children[i]` and `Children[i + 1]`. */
+    Splitters: Div[];
+    /** The width (`HORIZONTAL`) or height (`VERTICAL`) of the split in percent of the layout. */
+    Extent: number;
+};
+
+/**
+ * A node of the layout tree.
+ */
+type DockingNode = DockingSplit | TabGroup;
+
+/**
+ * The minimum size of a pane in pixels when resizing panes with a splitter.
+ */
+const MIN_PANE_SIZE = 48;
+
+/**
+ * The relative amount by which the size of a pane changes if a splitter is moved with the keyboard.
+ */
+const KEYBOARD_STEP = 0.05;
+
+/**
+ * Layout of tab groups in a tree of split panes (like in an IDE). Every pane hosts a tab group, the
+ * panes are separated by splitters which can be moved with the pointer or the keyboard. Tabs can be
+ * dragged between the tab groups, dropping a tab onto an edge of the content of a tab group splits
+ * the pane of the tab group. A pane whose tab group has no tabs anymore is collapsed (except for the
+ * last pane).
+ *
+ * Usage notes:
+ *
+ * - The tab groups are created by the docking layout, they can be set up with the `setupGroup`
+ *   function given to the constructor. Use `Groups` to access them, e.g. to add tabs.
+ * - The panes and splitters are positioned absolutely (in percent of the layout) and are never
+ *   moved inside of the DOM, so splitting/collapsing panes doesn't remount the tab groups of other
+ *   panes.
+ * - The docking layout needs a size (e.g. `width`/`height` or `flex-grow` set by CSS).
+ */
+export class DockingLayout<EventMap extends HTMLElementEventMap = HTMLElementEventMap> extends AElementComponentWithInternalUI<Div, EventMap> {
+    protected root: DockingNode;
+    protected setupGroup?: DockingGroupSetup;
+    // Moving of a splitter.
+    private dragSplit?: DockingSplit;
+    private dragIndex = -1;
+    private dragStart = -Infinity;
+    private dragSizes: number[] = [];
+    private dragExtent = 0;
+
+    /**
+     * Creates a docking layout with a single (empty) pane.
+     * @param setupGroup An optional function, that is called for every tab group created by the
+     * docking layout.
+     */
+    constructor(setupGroup?: DockingGroupSetup) {
+        super();
+        this.setupGroup = setupGroup;
+        super.initialize();
+        this.root = this.createGroup();
+        this.update();
+    }
+
+    /**
+     * Get the tab groups of all panes (in the order of the layout tree, from left/top to
+     * right/bottom).
+     */
+    public get Groups(): TabGroup[] {
+        const groups: TabGroup[] = [];
+        const collect = (node: DockingNode): void => { // eslint-disable-line jsdoc/require-jsdoc
+            node instanceof TabGroup
+                ? groups.push(node)
+                : node.Children.forEach(collect);
+        };
+        collect(this.root);
+        return groups;
+    }
+
+    /**
+     * Splits the pane of a tab group. The new pane is placed at the given edge of the pane and gets
+     * half of its size.
+     * @param group The tab group whose pane is to be split.
+     * @param edge The edge of the pane at which the new pane is placed.
+     * @param tabs Tabs to be moved to the tab group of the new pane (from any tab group). The first
+     * tab becomes the active tab of the new pane.
+     * @returns The tab group of the new pane or `undefined`, if `group` isn't part of this layout.
+     */
+    public split(group: TabGroup, edge: TabDropEdge, ...tabs: Tab[]): TabGroup | undefined {
+        const parent = this.getParent(group);
+        if (parent === undefined) {
+            return undefined;
+        }
+        const orientation = edge === TabDropEdge.LEFT || edge === TabDropEdge.RIGHT
+            ? DockingOrientation.HORIZONTAL
+            : DockingOrientation.VERTICAL;
+        const before = edge === TabDropEdge.LEFT || edge === TabDropEdge.TOP;
+        const newGroup = this.createGroup();
+        if (parent && parent.Orientation === orientation) {
+            // Same orientation, the new pane becomes a sibling.
+            const index = parent.Children.indexOf(group);
+            const size = parent.Sizes[index] / 2;
+            parent.Sizes.splice(index, 1, size, size);
+            parent.Children.splice(before ? index : index + 1, 0, newGroup);
+        } else {
+            const split: DockingSplit = {
+                /* eslint-disable jsdoc/require-jsdoc */
+                Orientation: orientation,
+                Sizes: [0.5, 0.5],
+                Children: before ? [newGroup, group] : [group, newGroup],
+                Splitters: [],
+                Extent: 100
+                /* eslint-enable */
+            };
+            this.replaceNode(parent, group, split);
+        }
+        this.update();
+        for (const tab of tabs) {
+            tab.TabGroup
+                ? tab.TabGroup !== newGroup ? tab.TabGroup.moveToAt(newGroup, newGroup.Tabs.length, tab) : undefined
+                : newGroup.append(tab);
+        }
+        newGroup.active(tabs[0]);
+        return newGroup;
+    }
+
+    /**
+     * Creates a JSON-serializable description of the layout (splits, sizes and snapshots of all tab
+     * groups, see `TabGroup.snapshot()`).
+     * @returns The description of the layout.
+     */
+    public snapshot(): DockingLayoutSnapshot {
+        const snapshotNode = (node: DockingNode): DockingLayoutSnapshot => { // eslint-disable-line jsdoc/require-jsdoc
+            return node instanceof TabGroup
+                ? { Group: node.snapshot() } // eslint-disable-line jsdoc/require-jsdoc
+                : { Orientation: node.Orientation, Sizes: node.Sizes.slice(0), Children: node.Children.map(snapshotNode) }; // eslint-disable-line jsdoc/require-jsdoc
+        };
+        return snapshotNode(this.root);
+    }
+
+    /**
+     * Restores a layout from a description created by `snapshot()`. Tabs of the current layout with
+     * a key listed in the description are moved to their new pane, missing tabs are created by
+     * `registry` and all other tabs are disposed (together with the current tab groups).
+     * @param snapshot The description of the layout.
+     * @param registry The registry for creating missing tabs.
+     * @returns This instance.
+     */
+    public restore(snapshot: DockingLayoutSnapshot, registry: TabRegistry): this {
+        const oldGroups = this.Groups;
+        const restored: [TabGroup, TabGroupSnapshot][] = [];
+        const restoreNode = (snapshot: DockingLayoutSnapshot): DockingNode => { // eslint-disable-line jsdoc/require-jsdoc
+            if ("Group" in snapshot || snapshot.Children.length === 0) {
+                const group = this.createGroup();
+                restored.push([group, "Group" in snapshot ? snapshot.Group : { Tabs: [] }]); // eslint-disable-line jsdoc/require-jsdoc
+                return group;
+            }
+            if (snapshot.Children.length === 1) {
+                return restoreNode(snapshot.Children[0]);
+            }
+            const total = snapshot.Sizes.slice(0, snapshot.Children.length).reduce((sum, size) => sum + size, 0);
+            return {
+                /* eslint-disable jsdoc/require-jsdoc */
+                Orientation: snapshot.Orientation,
+                Sizes: snapshot.Children.map((_, i) => total > 0 && (snapshot.Sizes[i] ?? 0) > 0
+                    ? snapshot.Sizes[i] / total
+                    : 1 / snapshot.Children.length),
+                Children: snapshot.Children.map(restoreNode),
+                Splitters: [],
+                Extent: 100
+                /* eslint-enable */
+            };
+        };
+        this.disposeSplitters(this.root);
+        this.root = restoreNode(snapshot);
+        this.update();
+        for (const [group, groupSnapshot] of restored) {
+            group.restore(groupSnapshot, registry, oldGroups);
+        }
+        for (const group of oldGroups) {
+            group.dispose();
+        }
+        return this;
+    }
+
+    /**
+     * Creates and sets up a new tab group for a pane. The tab group isn't part of the layout tree
+     * yet.
+     * @returns The new tab group.
+     */
+    protected createGroup(): TabGroup {
+        // Collapsing is deferred, so the pane is collapsed after an operation (e.g. `moveTo()`) has
+        // been completed.
+        const collapse = (): void => queueMicrotask(() => this.collapseEmptyPanes([group])); // eslint-disable-line jsdoc/require-jsdoc
+        const group = new TabGroup()
+            .dragAndDrop(true)
+            .edgeDropHandler((tab, target, edge) => this.split(target, edge, tab))
+            .on("tabsremoved", collapse)
+            .on("tabsmoved", collapse);
+        this.setupGroup?.(group);
+        return group;
+    }
+
+    /**
+     * Returns the parent split of a node.
+     * @param node The node.
+     * @returns The parent split, `null` if `node` is the root node or `undefined`, if `node` isn't
+     * part of the layout tree.
+     */
+    protected getParent(node: DockingNode): DockingSplit | null | undefined {
+        if (node === this.root) {
+            return null;
+        }
+        const find = (split: DockingNode): DockingSplit | undefined => { // eslint-disable-line jsdoc/require-jsdoc
+            if (split instanceof TabGroup) {
+                return undefined;
+            }
+            return split.Children.includes(node)
+                ? split
+                : split.Children.reduce<DockingSplit | undefined>((found, child) => found ?? find(child), undefined);
+        };
+        return find(this.root);
+    }
+
+    /**
+     * Replaces a node of the layout tree.
+     * @param parent The parent split of `node` or `null`, if `node` is the root node.
+     * @param node The node to be replaced.
+     * @param replacement The replacement.
+     */
+    protected replaceNode(parent: DockingSplit | null, node: DockingNode, replacement: DockingNode): void {
+        parent
+            ? parent.Children.splice(parent.Children.indexOf(node), 1, replacement)
+            : this.root = replacement;
+    }
+
+    /**
+     * Collapses the panes of tab groups without tabs. The space of a collapsed pane is given to its
+     * previous (or next) sibling, splits with a single child are replaced by this child.
+     * @param groups The tab groups to be checked.
+     */
+    protected collapseEmptyPanes(groups: TabGroup[]): void {
+        let changed = false;
+        for (const group of groups) {
+            const parent = this.getParent(group);
+            if (group.Tabs.length > 0 || !parent) {
+                continue;
+            }
+            const index = parent.Children.indexOf(group);
+            const sibling = index > 0 ? index - 1 : 1;
+            parent.Sizes[sibling] += parent.Sizes[index];
+            parent.Sizes.splice(index, 1);
+            parent.Children.splice(index, 1);
+            parent.Splitters.pop()?.dispose();
+            group.dispose();
+            if (parent.Children.length === 1) {
+                this.replaceNode(this.getParent(parent) ?? null, parent, parent.Children[0]);
+            }
+            changed = true;
+        }
+        if (changed) {
+            this.mergeSplits(this.root);
+            this.update();
+        }
+    }
+
+    /**
+     * Merges nested splits with the same orientation as their parent split into the parent split
+     * (this can happen after collapsing panes).
+     * @param node The root node of the (sub)tree to be merged.
+     */
+    private mergeSplits(node: DockingNode): void {
+        if (node instanceof TabGroup) {
+            return;
+        }
+        node.Children.forEach(child => this.mergeSplits(child));
+        for (let i = node.Children.length - 1; i >= 0; i--) {
+            const child = node.Children[i];
+            if (!(child instanceof TabGroup) && child.Orientation === node.Orientation) {
+                const size = node.Sizes[i];
+                node.Children.splice(i, 1, ...child.Children);
+                node.Sizes.splice(i, 1, ...child.Sizes.map(e => e * size));
+                child.Splitters.forEach(e => e.dispose());
+            }
+        }
+    }
+
+    /**
+     * Disposes the splitters of a (sub)tree.
+     * @param node The root node of the (sub)tree.
+     */
+    private disposeSplitters(node: DockingNode): void {
+        if (node instanceof TabGroup) {
+            return;
+        }
+        node.Splitters.forEach(e => e.dispose());
+        node.Splitters = [];
+        node.Children.forEach(child => this.disposeSplitters(child));
+    }
+
+    /**
+     * Adds the tab groups and splitters of the layout tree to the DOM (if needed) and positions
+     * them.
+     */
+    protected update(): void {
+        this.layoutNode(this.root, 0, 0, 100, 100);
+    }
+
+    /**
+     * Positions a node of the layout tree (all values in percent of the size of the layout).
+     * @param node The node.
+     * @param left The left position of the node.
+     * @param top The top position of the node.
+     * @param width The width of the node.
+     * @param height The height of the node.
+     */
+    private layoutNode(node: DockingNode, left: number, top: number, width: number, height: number): void {
+        if (node instanceof TabGroup) {
+            node.Parent === this.ui
+                ? undefined
+                : this.ui.append(node);
+            node
+                .style("left", `${left}%`)
+                .style("top", `${top}%`)
+                .style("width", `${width}%`)
+                .style("height", `${height}%`);
+            return;
+        }
+        while (node.Splitters.length < node.Children.length - 1) {
+            node.Splitters.push(this.createSplitter(node));
+        }
+        const horizontal = node.Orientation === DockingOrientation.HORIZONTAL;
+        node.Extent = horizontal ? width : height;
+        let offset = 0;
+        node.Children.forEach((child, i) => {
+            const size = node.Sizes[i];
+            horizontal
+                ? this.layoutNode(child, left + offset * width, top, size * width, height)
+                : this.layoutNode(child, left, top + offset * height, width, size * height);
+            offset += size;
+            const splitter = node.Splitters[i];
+            if (splitter) {
+                splitter
+                    .removeClass("horizontal", "vertical")
+                    .addClass(horizontal ? "horizontal" : "vertical")
+                    .attrib("aria-orientation", horizontal ? "vertical" : "horizontal")
+                    .attrib("aria-valuenow", String(Math.round(offset * 100)))
+                    .style("left", `${horizontal ? left + offset * width : left}%`)
+                    .style("top", `${horizontal ? top : top + offset * height}%`)
+                    .style("width", horizontal ? "" : `${width}%`)
+                    .style("height", horizontal ? `${height}%` : "");
+            }
+        });
+    }
+
+    /**
+     * Creates a splitter for a split.
+     * @param split The split.
+     * @returns The splitter.
+     */
+    private createSplitter(split: DockingSplit): Div {
+        const splitter = new Div()
+            .addClass("splitter")
+            .attrib("role", "separator")
+            .attrib("tabindex", "0")
+            .attrib("aria-valuemin", "0")
+            .attrib("aria-valuemax", "100");
+        splitter
+            .on("pointerdown", (ev) => this.onSplitterPointerDown(ev, split, splitter))
+            .on("pointermove", (ev) => this.onSplitterPointerMove(ev))
+            .on("pointerup", (ev) => this.onSplitterPointerUp(ev, splitter))
+            .on("pointercancel", (ev) => this.onSplitterPointerUp(ev, splitter))
+            .on("keydown", (ev) => this.onSplitterKeyDown(ev, split, splitter));
+        this.ui.append(splitter);
+        return splitter;
+    }
+
+    /**
+     * Returns the size in pixels of a split.
+     * @param split The split.
+     * @returns The width (`HORIZONTAL`) or height (`VERTICAL`) of the split.
+     */
+    private getExtent(split: DockingSplit): number {
+        const rect = this.ui.DOM.getBoundingClientRect();
+        return (split.Orientation === DockingOrientation.HORIZONTAL ? rect.width : rect.height) * split.Extent / 100;
+    }
+
+    /**
+     * Moves a splitter by resizing the children on both sides of the splitter, the sum of their
+     * sizes doesn't change.
+     * @param split The split of the splitter.
+     * @param index The index of the splitter.
+     * @param sizes The sizes of the children before moving the splitter.
+     * @param delta The relative amount by which the splitter is moved.
+     */
+    private moveSplitter(split: DockingSplit, index: number, sizes: number[], delta: number): void {
+        const extent = this.getExtent(split);
+        const min = extent > 0 ? Math.min(MIN_PANE_SIZE / extent, (sizes[index] + sizes[index + 1]) / 2) : 0;
+        const clamped = Math.max(min - sizes[index], Math.min(sizes[index + 1] - min, delta));
+        split.Sizes[index] = sizes[index] + clamped;
+        split.Sizes[index + 1] = sizes[index + 1] - clamped;
+        this.update();
+    }
+
+    /**
+     * Starts moving a splitter.
+     * @param ev The pointer event.
+     * @param split The split of the splitter.
+     * @param splitter The splitter.
+     */
+    private onSplitterPointerDown(ev: PointerEvent, split: DockingSplit, splitter: Div): void {
+        if (ev.button !== 0) {
+            return;
+        }
+        ev.preventDefault();
+        splitter.DOM.setPointerCapture(ev.pointerId);
+        splitter.addClass("dragging");
+        this.dragSplit = split;
+        this.dragIndex = split.Splitters.indexOf(splitter);
+        this.dragSizes = split.Sizes.slice(0);
+        this.dragExtent = this.getExtent(split);
+        this.dragStart = split.Orientation === DockingOrientation.HORIZONTAL ? ev.clientX : ev.clientY;
+    }
+
+    /**
+     * @see `onSplitterPointerDown()`.
+     * @param ev The pointer event.
+     */
+    private onSplitterPointerMove(ev: PointerEvent): void {
+        if (!this.dragSplit || this.dragExtent <= 0) {
+            return;
+        }
+        const position = this.dragSplit.Orientation === DockingOrientation.HORIZONTAL ? ev.clientX : ev.clientY;
+        this.moveSplitter(this.dragSplit, this.dragIndex, this.dragSizes, (position - this.dragStart) / this.dragExtent);
+    }
+
+    /**
+     * @see `onSplitterPointerDown()`.
+     * @param ev The pointer event.
+     * @param splitter The splitter.
+     */
+    private onSplitterPointerUp(ev: PointerEvent, splitter: Div): void {
+        splitter.DOM.hasPointerCapture(ev.pointerId)
+            ? splitter.DOM.releasePointerCapture(ev.pointerId)
+            : undefined;
+        splitter.removeClass("dragging");
+        this.dragSplit = undefined;
+    }
+
+    /**
+     * Moves a splitter with the arrow keys (WAI-ARIA window splitter pattern).
+     * @param ev The keyboard event.
+     * @param split The split of the splitter.
+     * @param splitter The splitter.
+     */
+    private onSplitterKeyDown(ev: KeyboardEvent, split: DockingSplit, splitter: Div): void {
+        const horizontal = split.Orientation === DockingOrientation.HORIZONTAL;
+        let delta: number;
+        switch (ev.key) {
+            case horizontal ? "ArrowLeft" : "ArrowUp":
+                delta = -KEYBOARD_STEP;
+                break;
+            case horizontal ? "ArrowRight" : "ArrowDown":
+                delta = KEYBOARD_STEP;
+                break;
+            default:
+                return;
+        }
+        ev.preventDefault();
+        this.moveSplitter(split, split.Splitters.indexOf(splitter), split.Sizes.slice(0), delta);
+    }
+
+    /**
+     * Build UI of the component.
+     * @returns This instance.
+     */
+    protected buildUI(): this {
+        this.ui = new Div();
+        return this;
+    }
+
+    /**
+     * Removes and disposes all panes (including their tab groups and tabs). The docking layout
+     * becomes unusable after calling `clear()`.
+     * @inheritdoc
+     */
+    public override clear(): this {
+        this.disposeSplitters(this.root);
+        super.clear();
+        return this;
+    }
+}
+
+/**
+ * Factory for DockingLayout components.
+ */
+export class DockingLayoutFactory<T> extends ComponentFactory<DockingLayout> {
+    /**
+     * Create, set up and return DockingLayout component.
+     * @param setupGroup An optional function, that is called for every tab group created by the
+     * docking layout.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns DockingLayout component.
+     */
+    public dockingLayout(setupGroup?: DockingGroupSetup, data?: T): DockingLayout {
+        return this.setupComponent(new DockingLayout(setupGroup), data);
+    }
+}
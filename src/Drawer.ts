@@ -0,0 +1,705 @@
+import { ACustomComponentEvent, AElementComponentWithInternalUI, ComponentFactory, IElementWithChildrenComponent, INodeComponent } from "@vanilla-ts/core";
+import { Button, Div, P } from "@vanilla-ts/dom";
+import { DisclosureContainerLabels } from "./DisclosureContainer.js";
+
+
+/**
+ * Side of the page on which a drawer is placed.
+ */
+export enum DrawerPosition {
+    // The drawer is on the left side, it is resized by its right edge.
+    LEFT = 0,
+    // The drawer is on the right side, it is resized by its left edge.
+    RIGHT,
+}
+
+/**
+ * Appearance of an undisclosed drawer.
+ */
+export enum DrawerCollapseMode {
+    // The drawer collapses to a narrow rail, that still shows the toggle button.
+    RAIL = 0,
+    // The drawer is hidden completely, it must be disclosed by the app (`disclosed(true)`).
+    HIDDEN,
+}
+
+/**
+ * Counter for generating unique ids for the panels of drawers (`aria-controls`).
+ */
+let drawerIdCounter = 0;
+
+/**
+ * Elements inside the panel of a drawer, that can receive the focus (focus trap of the overlay).
+ */
+const FOCUSABLE_ELEMENTS = "a[href], button:not(:disabled), input:not(:disabled), select:not(:disabled), textarea:not(:disabled), summary, [contenteditable=''], [contenteditable='true'], [tabindex]:not([tabindex='-1'])";
+
+/**
+ * Step in pixels for resizing a drawer with the arrow keys.
+ */
+const RESIZE_STEP = 10;
+
+/**
+ * Custom 'disclose' event for drawers.
+ */
+export class DrawerDiscloseEvent<D extends object = {
+    /** `true`, if the drawer is disclosed, otherwise `false`. */
+    Disclosed: boolean;
+}> extends ACustomComponentEvent<"disclose", Drawer, D> { }
+
+/**
+ * Custom 'disclosed' event for drawers.
+ */
+export class DrawerDisclosedEvent<D extends object = {
+    /** `true`, if the drawer is disclosed, otherwise `false`. */
+    Disclosed: boolean;
+}> extends ACustomComponentEvent<"disclosed", Drawer, D> { }
+
+/**
+ * Custom 'widthchange' event for drawers.
+ */
+export class DrawerWidthChangeEvent<D extends object = {
+    /** The new width in pixels. */
+    Width: number;
+}> extends ACustomComponentEvent<"widthchange", Drawer, D> { }
+
+/**
+ * Additional event(s) for `Drawer`.
+ */
+export interface DrawerEventMap extends HTMLElementEventMap {
+    /**
+     * A drawer is disclosed/undisclosed. Event handlers can prevent changing the `Disclosed` state
+     * by calling `preventDefault()` (same semantics as `DisclosureContainer`).
+     */
+    "disclose": DrawerDiscloseEvent;
+    /** The `Disclosed` state of a drawer has changed. This event can't be canceled. */
+    "disclosed": DrawerDisclosedEvent;
+    /** The width of a drawer was changed by the user (dragging the edge or keyboard). */
+    "widthchange": DrawerWidthChangeEvent;
+}
+
+/**
+ * Side panel (e.g. for navigation), that collapses to a narrow rail or hides completely. The width
+ * of the disclosed drawer can be changed by dragging its inner edge, optionally the width is stored
+ * in the local storage (see `StorageKey`).\
+ * On small screens (see `OverlayBreakpoint`) the disclosed drawer overlays the page: a backdrop
+ * covers the page, the focus is trapped inside the drawer and `Escape` or a click on the backdrop
+ * undiscloses the drawer.
+ */
+export class Drawer<EventMap extends DrawerEventMap = DrawerEventMap> extends AElementComponentWithInternalUI<Div, EventMap> {
+    protected panel: IElementWithChildrenComponent<HTMLDivElement>;
+    protected toggleButton: Button;
+    protected contentContainer: IElementWithChildrenComponent<HTMLDivElement>;
+    protected resizer: IElementWithChildrenComponent<HTMLDivElement>;
+    protected backdrop: IElementWithChildrenComponent<HTMLDivElement>;
+    protected _disclosed: boolean;
+    protected _position: DrawerPosition;
+    protected _collapseMode: DrawerCollapseMode;
+    protected _labels: DisclosureContainerLabels;
+    protected _width = 256;
+    protected _minWidth = 160;
+    protected _maxWidth = 640;
+    protected _resizable = true;
+    protected _storageKey?: string;
+    protected _overlayBreakpoint = 600;
+    protected overlay = false;
+    private modal = false;
+    private overlayQuery?: MediaQueryList;
+    private returnFocus?: HTMLElement;
+    private resizeStart?: { PointerId: number; X: number; Width: number; }; // eslint-disable-line jsdoc/require-jsdoc
+    private fncOnOverlayQueryChange = this.onOverlayQueryChange.bind(this);
+
+    /**
+     * Creates a drawer.
+     * @param content The content for the drawer (components or string, in the case of a string,
+     * the content is a `P` component with the string as the content).
+     * @param position The side of the page on which the drawer is placed.
+     * @param collapseMode The appearance of the undisclosed drawer.
+     * @param disclosed `true`, if the initial state of the drawer is 'disclosed', otherwise `false`.
+     * @param labels The captions/titles for the toggle button.
+     */
+    constructor(
+        content?: INodeComponent<Node>[] | string,
+        position: DrawerPosition = DrawerPosition.LEFT,
+        collapseMode: DrawerCollapseMode = DrawerCollapseMode.RAIL,
+        disclosed: boolean = true,
+        labels: DisclosureContainerLabels = { Captions: ["≡", "×"], Titles: ["", ""] } // eslint-disable-line jsdoc/require-jsdoc
+    ) {
+        super();
+        super.initialize()
+            .labels(labels)
+            .position(position)
+            .collapseMode(collapseMode)
+            .disclosed(disclosed)
+            .width(this._width)
+            .overlayBreakpoint(this._overlayBreakpoint);
+        content !== undefined ? this.content(content) : undefined;
+    }
+
+    /**
+     * Get the toggle button component.
+     */
+    public get ToggleButton(): Button {
+        return this.toggleButton;
+    }
+
+    /**
+     * Get the captions/titles for the toggle button. Returns a _copy_ of the current
+     * captions/titles!
+     */
+    public get Labels(): DisclosureContainerLabels {
+        return { ...this._labels };
+    }
+    /** @inheritdoc */
+    public set Labels(v: DisclosureContainerLabels) {
+        this.labels(v);
+    }
+
+    /**
+     * Set new captions/titles for the toggle button. No reference to the given labels object is
+     * held!
+     * @param labels The new captions/titles.
+     * @returns This instance.
+     */
+    public labels(labels: DisclosureContainerLabels): this {
+        this._labels = {
+            /* eslint-disable jsdoc/require-jsdoc */
+            Captions: labels.Captions ?? ["≡", "×"],
+            Titles: labels.Titles ?? ["", ""]
+            /* eslint-enable */
+        };
+        this.syncToggleButton();
+        return this;
+    }
+
+    /**
+     * Get the container component, that holds the content of the drawer.
+     */
+    public get Content(): IElementWithChildrenComponent<HTMLDivElement> {
+        return this.contentContainer;
+    }
+
+    /**
+     * Set new content. Setting new content _disposes the former content if `extractTo is
+     * `undefined`_!
+     * @param content The new content (components or string, in the case of a string, the content is
+     * a `P` component with the string as the content).
+     * @param extractTo An array, that, if given, will receive the former content component(s).
+     * @returns This instance.
+     */
+    public content(content: INodeComponent<Node>[] | string, extractTo?: INodeComponent<Node>[]): this {
+        extractTo
+            ? this.contentContainer.extract(extractTo)
+            : this.contentContainer.clear();
+        typeof content === "string"
+            ? this.contentContainer.append(new P(content))
+            : this.contentContainer.append(...content);
+        return this;
+    }
+
+    /**
+     * Get/set the disclosed state.
+     */
+    public get Disclosed(): boolean {
+        return this._disclosed;
+    }
+    /** @inheritdoc */
+    public set Disclosed(v: boolean) {
+        this.disclosed(v);
+    }
+
+    /**
+     * Disclose/undisclose the drawer.
+     * @param disclosed `true`, if the state of the drawer shall be 'disclosed', otherwise `false`.
+     * @returns This instance.
+     */
+    public disclosed(disclosed: boolean): this {
+        if (disclosed !== this._disclosed) {
+            if (!this._dom.dispatchEvent(new DrawerDiscloseEvent("disclose", this, { Disclosed: disclosed }))) { // eslint-disable-line jsdoc/require-jsdoc
+                return this;
+            }
+            this._disclosed = disclosed;
+            this.ui.DOM.classList.toggle("disclosed", disclosed);
+            this.ui.DOM.classList.toggle("undisclosed", !disclosed);
+            this.syncToggleButton();
+            this.syncOverlay();
+            this._dom.dispatchEvent(new DrawerDisclosedEvent("disclosed", this, { Disclosed: this._disclosed })); // eslint-disable-line jsdoc/require-jsdoc
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the side of the page on which the drawer is placed.
+     */
+    public get Position(): DrawerPosition {
+        return this._position;
+    }
+    /** @inheritdoc */
+    public set Position(v: DrawerPosition) {
+        this.position(v);
+    }
+
+    /**
+     * Sets the side of the page on which the drawer is placed.
+     * @param position The new position.
+     * @returns This instance.
+     */
+    public position(position: DrawerPosition): this {
+        this._position = position;
+        this.ui.DOM.classList.toggle("left", position === DrawerPosition.LEFT);
+        this.ui.DOM.classList.toggle("right", position === DrawerPosition.RIGHT);
+        return this;
+    }
+
+    /**
+     * Get/set the appearance of the undisclosed drawer.
+     */
+    public get CollapseMode(): DrawerCollapseMode {
+        return this._collapseMode;
+    }
+    /** @inheritdoc */
+    public set CollapseMode(v: DrawerCollapseMode) {
+        this.collapseMode(v);
+    }
+
+    /**
+     * Sets the appearance of the undisclosed drawer.
+     * @param collapseMode The new collapse mode.
+     * @returns This instance.
+     */
+    public collapseMode(collapseMode: DrawerCollapseMode): this {
+        this._collapseMode = collapseMode;
+        this.ui.DOM.classList.toggle("collapse-rail", collapseMode === DrawerCollapseMode.RAIL);
+        this.ui.DOM.classList.toggle("collapse-hidden", collapseMode === DrawerCollapseMode.HIDDEN);
+        return this;
+    }
+
+    /**
+     * Get/set the width in pixels of the disclosed drawer.
+     */
+    public get Width(): number {
+        return this._width;
+    }
+    /** @inheritdoc */
+    public set Width(v: number) {
+        this.width(v);
+    }
+
+    /**
+     * Sets the width of the disclosed drawer. The width is limited to `MinWidth`/`MaxWidth` and is
+     * stored, if `StorageKey` is set.
+     * @param width The new width in pixels.
+     * @returns This instance.
+     */
+    public width(width: number): this {
+        this.applyWidth(width);
+        this.storeWidth();
+        return this;
+    }
+
+    /**
+     * Get/set the minimum width in pixels of the disclosed drawer.
+     */
+    public get MinWidth(): number {
+        return this._minWidth;
+    }
+    /** @inheritdoc */
+    public set MinWidth(v: number) {
+        this.minWidth(v);
+    }
+
+    /**
+     * Sets the minimum width of the disclosed drawer.
+     * @param minWidth The minimum width in pixels.
+     * @returns This instance.
+     */
+    public minWidth(minWidth: number): this {
+        this._minWidth = minWidth;
+        this.applyWidth(this._width);
+        return this;
+    }
+
+    /**
+     * Get/set the maximum width in pixels of the disclosed drawer.
+     */
+    public get MaxWidth(): number {
+        return this._maxWidth;
+    }
+    /** @inheritdoc */
+    public set MaxWidth(v: number) {
+        this.maxWidth(v);
+    }
+
+    /**
+     * Sets the maximum width of the disclosed drawer.
+     * @param maxWidth The maximum width in pixels.
+     * @returns This instance.
+     */
+    public maxWidth(maxWidth: number): this {
+        this._maxWidth = maxWidth;
+        this.applyWidth(this._width);
+        return this;
+    }
+
+    /**
+     * Get/set whether the drawer can be resized by dragging its inner edge.
+     */
+    public get Resizable(): boolean {
+        return this._resizable;
+    }
+    /** @inheritdoc */
+    public set Resizable(v: boolean) {
+        this.resizable(v);
+    }
+
+    /**
+     * Enables/disables resizing the drawer by dragging its inner edge (or with the arrow keys, if
+     * the edge has the focus).
+     * @param resizable `true`, if the drawer is resizable, otherwise `false`.
+     * @returns This instance.
+     */
+    public resizable(resizable: boolean): this {
+        this._resizable = resizable;
+        this.resizer.DOM.hidden = !resizable;
+        return this;
+    }
+
+    /**
+     * Get/set the key under which the width is stored in the local storage.
+     */
+    public get StorageKey(): string | undefined {
+        return this._storageKey;
+    }
+    /** @inheritdoc */
+    public set StorageKey(v: string | undefined) {
+        this.storageKey(v);
+    }
+
+    /**
+     * Sets the key under which the width is stored in the local storage. If a width is stored
+     * under the key, it becomes the width of the drawer.
+     * @param storageKey The key or `undefined`, if the width isn't stored.
+     * @returns This instance.
+     */
+    public storageKey(storageKey?: string): this {
+        this._storageKey = storageKey;
+        if (storageKey !== undefined) {
+            let stored: string | null = null;
+            try {
+                stored = localStorage.getItem(storageKey);
+            } catch {
+                // The local storage may be unavailable (e.g. due to privacy settings).
+            }
+            const width = Number(stored);
+            stored !== null && Number.isFinite(width)
+                ? this.applyWidth(width)
+                : undefined;
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the viewport width in pixels up to which the disclosed drawer overlays the page
+     * (`0` = never).
+     */
+    public get OverlayBreakpoint(): number {
+        return this._overlayBreakpoint;
+    }
+    /** @inheritdoc */
+    public set OverlayBreakpoint(v: number) {
+        this.overlayBreakpoint(v);
+    }
+
+    /**
+     * Sets the viewport width up to which the disclosed drawer overlays the page. Switching to the
+     * overlay mode undiscloses the drawer.
+     * @param overlayBreakpoint The viewport width in pixels, `0` disables the overlay mode.
+     * @returns This instance.
+     */
+    public overlayBreakpoint(overlayBreakpoint: number): this {
+        this._overlayBreakpoint = overlayBreakpoint;
+        this.overlayQuery?.removeEventListener("change", this.fncOnOverlayQueryChange);
+        this.overlayQuery = overlayBreakpoint > 0
+            ? matchMedia(`(max-width: ${overlayBreakpoint}px)`)
+            : undefined;
+        this.overlayQuery?.addEventListener("change", this.fncOnOverlayQueryChange);
+        this.onOverlayQueryChange();
+        return this;
+    }
+
+    /**
+     * `true`, if the drawer is in the overlay mode (see `OverlayBreakpoint`), otherwise `false`.
+     */
+    public get Overlay(): boolean {
+        return this.overlay;
+    }
+
+    /**
+     * Sets the width limited to `MinWidth`/`MaxWidth` without storing it.
+     * @param width The width in pixels.
+     */
+    protected applyWidth(width: number): void {
+        this._width = Math.round(Math.max(this._minWidth, Math.min(width, this._maxWidth)));
+        this.ui.DOM.style.setProperty("--vts-drawer-width", `${this._width}px`);
+        this.resizer
+            .attrib("aria-valuenow", String(this._width))
+            .attrib("aria-valuemin", String(this._minWidth))
+            .attrib("aria-valuemax", String(this._maxWidth));
+    }
+
+    /**
+     * Stores the width in the local storage, if `StorageKey` is set.
+     */
+    protected storeWidth(): void {
+        if (this._storageKey !== undefined) {
+            try {
+                localStorage.setItem(this._storageKey, String(this._width));
+            } catch {
+                // The local storage may be unavailable or full.
+            }
+        }
+    }
+
+    /**
+     * Updates caption, title and `aria-expanded` of the toggle button.
+     */
+    protected syncToggleButton(): void {
+        const index = this._disclosed ? 1 : 0;
+        this.toggleButton.Text = this._labels.Captions[index];
+        this.toggleButton.Title = this._labels.Titles[index];
+        this.toggleButton.attrib("aria-expanded", String(!!this._disclosed));
+    }
+
+    /**
+     * Shows/hides the backdrop and activates/deactivates the focus trap. When the overlay is
+     * opened, the first focusable element of the content receives the focus, when it is closed,
+     * the focus returns to the element, that had the focus before.
+     */
+    protected syncOverlay(): void {
+        const modal = this.overlay && this._disclosed;
+        this.ui.DOM.classList.toggle("overlay", this.overlay);
+        this.backdrop.DOM.hidden = !modal;
+        if (modal === this.modal) {
+            return;
+        }
+        this.modal = modal;
+        if (modal) {
+            this.panel
+                .attrib("role", "dialog")
+                .attrib("aria-modal", "true");
+            this.returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : undefined;
+            (this.contentContainer.DOM.querySelector<HTMLElement>(FOCUSABLE_ELEMENTS) ?? this.toggleButton.DOM).focus();
+        } else {
+            ["role", "aria-modal"].forEach(e => this.panel.DOM.removeAttribute(e));
+            this.panel.DOM.contains(document.activeElement)
+                ? this.returnFocus?.focus()
+                : undefined;
+            this.returnFocus = undefined;
+        }
+    }
+
+    /**
+     * Switches the overlay mode according to the viewport width.
+     */
+    private onOverlayQueryChange(): void {
+        const overlay = this.overlayQuery?.matches ?? false;
+        if (overlay === this.overlay) {
+            return;
+        }
+        this.overlay = overlay;
+        // The drawer shouldn't cover the page right after switching to the overlay mode.
+        overlay
+            ? this.disclosed(false)
+            : undefined;
+        this.syncOverlay();
+    }
+
+    /**
+     * Handles `Escape` and the focus trap of the overlay.
+     * @param ev The keyboard event.
+     */
+    protected onKeyDown(ev: KeyboardEvent): void {
+        if (!this.modal) {
+            return;
+        }
+        if (ev.key === "Escape") {
+            ev.preventDefault();
+            this.disclosed(false);
+        } else if (ev.key === "Tab") {
+            const focusable = [...this.panel.DOM.querySelectorAll<HTMLElement>(FOCUSABLE_ELEMENTS)].filter(e => e.offsetParent !== null);
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            if (!first) {
+                ev.preventDefault();
+            } else if (ev.shiftKey && (document.activeElement === first || !this.panel.DOM.contains(document.activeElement))) {
+                ev.preventDefault();
+                last.focus();
+            } else if (!ev.shiftKey && (document.activeElement === last || !this.panel.DOM.contains(document.activeElement))) {
+                ev.preventDefault();
+                first.focus();
+            }
+        }
+    }
+
+    /**
+     * Starts resizing by dragging the edge.
+     * @param ev The pointer event.
+     */
+    private onResizerPointerDown(ev: PointerEvent): void {
+        if (ev.button !== 0 || !this._resizable || !this._disclosed || this.overlay || this.resizeStart) {
+            return;
+        }
+        ev.preventDefault();
+        this.resizer.DOM.setPointerCapture(ev.pointerId);
+        this.resizeStart = { PointerId: ev.pointerId, X: ev.clientX, Width: this._width }; // eslint-disable-line jsdoc/require-jsdoc
+        this.ui.addClass("resizing");
+    }
+
+    /**
+     * Resizes the drawer while dragging the edge.
+     * @param ev The pointer event.
+     */
+    private onResizerPointerMove(ev: PointerEvent): void {
+        if (this.resizeStart?.PointerId !== ev.pointerId) {
+            return;
+        }
+        const delta = ev.clientX - this.resizeStart.X;
+        this.applyWidth(this.resizeStart.Width + (this._position === DrawerPosition.LEFT ? delta : -delta));
+    }
+
+    /**
+     * Ends resizing, the width is stored and a `widthchange` event is dispatched.
+     * @param ev The pointer event.
+     */
+    private onResizerPointerUp(ev: PointerEvent): void {
+        const start = this.resizeStart;
+        if (start?.PointerId !== ev.pointerId) {
+            return;
+        }
+        this.resizeStart = undefined;
+        this.resizer.DOM.hasPointerCapture(ev.pointerId)
+            ? this.resizer.DOM.releasePointerCapture(ev.pointerId)
+            : undefined;
+        this.ui.removeClass("resizing");
+        this._width !== start.Width
+            ? this.widthChanged()
+            : undefined;
+    }
+
+    /**
+     * Resizes the drawer with the arrow keys, `Home` and `End`, if the edge has the focus.
+     * @param ev The keyboard event.
+     */
+    private onResizerKeyDown(ev: KeyboardEvent): void {
+        const grow = this._position === DrawerPosition.LEFT ? "ArrowRight" : "ArrowLeft";
+        const shrink = this._position === DrawerPosition.LEFT ? "ArrowLeft" : "ArrowRight";
+        const previous = this._width;
+        switch (ev.key) {
+            case grow:
+                this.applyWidth(this._width + RESIZE_STEP);
+                break;
+            case shrink:
+                this.applyWidth(this._width - RESIZE_STEP);
+                break;
+            case "Home":
+                this.applyWidth(this._minWidth);
+                break;
+            case "End":
+                this.applyWidth(this._maxWidth);
+                break;
+            default:
+                return;
+        }
+        ev.preventDefault();
+        this._width !== previous
+            ? this.widthChanged()
+            : undefined;
+    }
+
+    /**
+     * Stores the width changed by the user and dispatches a `widthchange` event.
+     */
+    private widthChanged(): void {
+        this.storeWidth();
+        this._dom.dispatchEvent(new DrawerWidthChangeEvent("widthchange", this, { Width: this._width })); // eslint-disable-line jsdoc/require-jsdoc
+    }
+
+    /**
+     * Build UI of the component.
+     * @returns This instance.
+     */
+    protected buildUI(): this {
+        const id = `vts-drawer-${++drawerIdCounter}`;
+        this.ui = new Div()
+            .append(
+                this.panel = new Div()
+                    .addClass("drawer-panel")
+                    .attrib("id", `${id}-panel`)
+                    .append(
+                        this.toggleButton = new Button("")
+                            .addClass("drawer-toggle")
+                            .attrib("aria-controls", `${id}-panel`)
+                            .on("click", () => this.Disclosed = !this.Disclosed),
+                        this.contentContainer = new Div()
+                            .addClass("drawer-content")
+                    ),
+                // The edge for resizing.
+                this.resizer = new Div()
+                    .addClass("drawer-resizer")
+                    .attrib("role", "separator")
+                    .attrib("aria-orientation", "vertical")
+                    .attrib("aria-controls", `${id}-panel`)
+                    .attrib("tabindex", "0")
+                    .on("pointerdown", (ev) => this.onResizerPointerDown(ev))
+                    .on("pointermove", (ev) => this.onResizerPointerMove(ev))
+                    .on("pointerup", (ev) => this.onResizerPointerUp(ev))
+                    .on("pointercancel", (ev) => this.onResizerPointerUp(ev))
+                    .on("keydown", (ev) => this.onResizerKeyDown(ev)),
+                // The backdrop of the overlay.
+                this.backdrop = new Div()
+                    .addClass("drawer-backdrop")
+                    .attrib("hidden", "")
+                    .on("click", () => this.disclosed(false))
+            )
+            .on("keydown", (ev) => this.onKeyDown(ev));
+        return this;
+    }
+
+    /**
+     * Removes _all_ child components from this component (`this.ui`). The drawer can't be used
+     * afterwards.
+     * @returns This instance.
+     */
+    public override clear(): this {
+        this.overlayQuery?.removeEventListener("change", this.fncOnOverlayQueryChange);
+        this.overlayQuery = undefined;
+        super.clear();
+        return this;
+    }
+}
+
+/**
+ * Factory for Drawer components.
+ */
+export class DrawerFactory<T> extends ComponentFactory<Drawer> {
+    /**
+     * Create, set up and return Drawer component.
+     * @param content The content for the drawer (components or string, in the case of a string,
+     * the content is a `P` component with the string as the content).
+     * @param position The side of the page on which the drawer is placed.
+     * @param collapseMode The appearance of the undisclosed drawer.
+     * @param disclosed `true`, if the initial state of the drawer is 'disclosed', otherwise `false`.
+     * @param labels The captions/titles for the toggle button.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns Drawer component.
+     */
+    public drawer(
+        content?: INodeComponent<Node>[] | string,
+        position?: DrawerPosition,
+        collapseMode?: DrawerCollapseMode,
+        disclosed?: boolean,
+        labels?: DisclosureContainerLabels,
+        data?: T
+    ): Drawer {
+        return this.setupComponent(new Drawer(content, position, collapseMode, disclosed, labels), data);
+    }
+}
@@ -0,0 +1,188 @@
+import { HTMLElementWithChildren, IElementWithChildrenComponent, INodeComponent } from "@vanilla-ts/core";
+import { P } from "@vanilla-ts/dom";
+
+
+/**
+ * A function which builds lazy content for a component (components or string, in the case of a
+ * string, the content is a `P` component with the string as the content). The function can build
+ * the content synchronously or return a promise.
+ */
+export type LazyContentProvider<C> = (component: C) => INodeComponent<Node>[] | string | Promise<INodeComponent<Node>[] | string>;
+
+/**
+ * Builds the content of a content container by a content provider on demand (see `load()`) and
+ * disposes it again (see `unload()`). While the content of an asynchronous content provider is
+ * pending, a placeholder is displayed. The state is reflected by the CSS classes `loading` and
+ * `error` of a state component (e.g. the component which owns the content container).\
+ * Used by `LazyTab` and `LazyDisclosureContainer`.
+ */
+export class LazyContent<C> {
+    protected component: C;
+    protected container: IElementWithChildrenComponent<HTMLElementWithChildren>;
+    protected stateComponent: IElementWithChildrenComponent<HTMLElementWithChildren>;
+    protected provider: LazyContentProvider<C>;
+    protected placeholder: string | (() => INodeComponent<Node>[]);
+    protected failed?: () => void;
+    protected loaded = false;
+    protected loading?: Promise<boolean>;
+    protected error = false;
+    // Incremented on every load/unload, used to discard the result of outdated pending loads.
+    protected generation = 0;
+
+    /**
+     * Creates the lazy content of a component.
+     * @param component The component, which is passed to the content provider.
+     * @param container The container, that receives the content.
+     * @param stateComponent The component, whose CSS classes reflect the state (`loading`, `error`).
+     * @param provider The content provider.
+     * @param placeholder The content which is displayed while the content of an asynchronous
+     * content provider is pending (string or a function which creates components, in the case of a
+     * string, the content is a `P` component with the string as the content).
+     * @param failed An optional function, that is called if the content provider failed.
+     */
+    constructor(
+        component: C,
+        container: IElementWithChildrenComponent<HTMLElementWithChildren>,
+        stateComponent: IElementWithChildrenComponent<HTMLElementWithChildren>,
+        provider: LazyContentProvider<C>,
+        placeholder: string | (() => INodeComponent<Node>[]),
+        failed?: () => void
+    ) {
+        this.component = component;
+        this.container = container;
+        this.stateComponent = stateComponent;
+        this.provider = provider;
+        this.placeholder = placeholder;
+        this.failed = failed;
+    }
+
+    /**
+     * `true`, if the content has been built, otherwise `false`.
+     */
+    public get Loaded(): boolean {
+        return this.loaded;
+    }
+
+    /**
+     * `true`, if the content of an asynchronous content provider is pending, otherwise `false`.
+     */
+    public get Loading(): boolean {
+        return this.loading !== undefined;
+    }
+
+    /**
+     * `true`, if the content provider failed and an error is displayed, otherwise `false`.
+     */
+    public get Failed(): boolean {
+        return this.error;
+    }
+
+    /**
+     * Builds the content by invoking the content provider (if the content isn't already built or
+     * pending).
+     * @returns A promise which resolves to `true`, if the content was built, or to `false`, if the
+     * content provider failed or the content was disposed while it was pending.
+     */
+    public load(): Promise<boolean> {
+        if (this.loaded) {
+            return Promise.resolve(true);
+        }
+        if (this.loading) {
+            return this.loading;
+        }
+        const generation = ++this.generation;
+        this.error = false;
+        this.stateComponent.removeClass("error");
+        let result: ReturnType<LazyContentProvider<C>>;
+        try {
+            result = this.provider(this.component);
+        } catch (error) {
+            this.loadError(error);
+            return Promise.resolve(false);
+        }
+        if (!(result instanceof Promise)) {
+            this.content(result);
+            this.loaded = true;
+            return Promise.resolve(true);
+        }
+        this.content(typeof this.placeholder === "string" ? this.placeholder : this.placeholder());
+        this.stateComponent.addClass("loading");
+        this.loading = result
+            .then(content => {
+                if (generation !== this.generation) {
+                    // Outdated, the content was disposed in the meantime.
+                    typeof content === "string"
+                        ? undefined
+                        : content.forEach(e => e.dispose());
+                    return false;
+                }
+                this.content(content);
+                this.loaded = true;
+                return true;
+            }, (error: unknown) => {
+                generation === this.generation
+                    ? this.loadError(error)
+                    : undefined;
+                return false;
+            })
+            .finally(() => {
+                if (generation === this.generation) {
+                    this.loading = undefined;
+                    this.stateComponent.removeClass("loading");
+                }
+            });
+        return this.loading;
+    }
+
+    /**
+     * Disposes the content (built, pending or error), it will be rebuilt on the next `load()`.
+     * @returns `true`, if there was content to dispose, otherwise `false`.
+     */
+    public unload(): boolean {
+        if (!this.loaded && !this.loading && !this.error) {
+            return false;
+        }
+        this.invalidate();
+        this.stateComponent.removeClass("loading", "error");
+        this.container.clear();
+        return true;
+    }
+
+    /**
+     * Resets the state without touching the content container, a pending load is discarded. Used
+     * if the content container is cleared by other means (e.g. by `clear()` of the component).
+     */
+    public invalidate(): void {
+        this.generation++;
+        this.loaded = false;
+        this.loading = undefined;
+        this.error = false;
+    }
+
+    /**
+     * Displays an error as content if the content provider failed. The content remains unloaded,
+     * so the content provider is invoked again on the next `load()`.
+     * @param error The error thrown by the content provider or the reason of the rejected promise.
+     */
+    protected loadError(error: unknown): void {
+        this.loaded = false;
+        this.error = true;
+        this.stateComponent
+            .removeClass("loading")
+            .addClass("error");
+        this.content(error instanceof Error ? error.message : String(error));
+        this.failed?.();
+    }
+
+    /**
+     * Replaces the content of the content container.
+     * @param content The new content (components or string, in the case of a string, the content is
+     * a `P` component with the string as the content).
+     */
+    protected content(content: INodeComponent<Node>[] | string): void {
+        this.container.clear();
+        typeof content === "string"
+            ? this.container.append(new P(content))
+            : this.container.append(...content);
+    }
+}
@@ -0,0 +1,154 @@
+import { ComponentFactory, INodeComponent } from "@vanilla-ts/core";
+import { DisclosedEvent, DisclosureContainer, DisclosureContainerAppearance, DisclosureContainerLabels } from "./DisclosureContainer.js";
+import { LazyContent, LazyContentProvider } from "./LazyContent.js";
+
+
+/**
+ * A function which builds the content of a lazy disclosure container (see `LazyContentProvider`).
+ */
+export type DisclosureContentProvider = LazyContentProvider<LazyDisclosureContainer>;
+
+/**
+ * A disclosure container whose content is built by a content provider the first time it is
+ * disclosed. While the content of an asynchronous content provider is pending, a placeholder is
+ * displayed. Optionally the content is disposed again when the container is undisclosed, in this
+ * case the content is rebuilt on the next disclosure.\
+ * __Note:__ The content provider is responsible for the content, so the content shouldn't be set
+ * with `content()`.
+ */
+export class LazyDisclosureContainer extends DisclosureContainer {
+    protected lazyContent: LazyContent<LazyDisclosureContainer>;
+    protected _disposeOnCollapse: boolean;
+
+    /**
+     * Creates a lazy disclosure container.
+     * @param header The content for the header of the disclosure container (components or string,
+     * in the case of a string, the header content is a `Span` component with the string as the
+     * content).
+     * @param provider The content provider, which is invoked on the first disclosure (and on the
+     * next disclosure after the content was disposed).
+     * @param placeholder The content which is displayed while the content of an asynchronous
+     * content provider is pending (string or a function which creates components, in the case of a
+     * string, the content is a `P` component with the string as the content).
+     * @param disposeOnCollapse If `true`, the content is disposed when the container is undisclosed.
+     * @param labels The captions/titles for the disclosure button.
+     * @param disclosed `true`, if the initial state of the disclosure container is 'disclosed'
+     * (the content is built immediately), otherwise `false`.
+     * @param appearance The disclosure container appearance (header position and orientation).
+     */
+    constructor(
+        header: INodeComponent<Node>[] | string | undefined,
+        provider: DisclosureContentProvider,
+        placeholder: string | (() => INodeComponent<Node>[]) = "...",
+        disposeOnCollapse: boolean = false,
+        labels: DisclosureContainerLabels = { Captions: ["+", "-"], Titles: ["", ""] }, // eslint-disable-line jsdoc/require-jsdoc
+        disclosed: boolean = false,
+        appearance: DisclosureContainerAppearance = DisclosureContainerAppearance.TOP_LEFT
+    ) {
+        // Disclosing is deferred until the content provider is available.
+        super(header, undefined, labels, false, appearance);
+        this.lazyContent = new LazyContent<LazyDisclosureContainer>(this, this.contentContainer, this.ui, provider, placeholder);
+        this._disposeOnCollapse = disposeOnCollapse;
+        // Disposing on collapse waits for the end of the animation (if any).
+        this.on("disclosed", (ev: DisclosedEvent) => {
+            ev.target === this._dom && !ev.detail.Disclosed && this._disposeOnCollapse
+                ? this.unload()
+                : undefined;
+        });
+        this.disclosed(disclosed);
+    }
+
+    /**
+     * `true`, if the content has been built, otherwise `false`.
+     */
+    public get Loaded(): boolean {
+        return this.lazyContent.Loaded;
+    }
+
+    /**
+     * Get/set whether the content is disposed when the container is undisclosed.
+     */
+    public get DisposeOnCollapse(): boolean {
+        return this._disposeOnCollapse;
+    }
+    /** @inheritdoc */
+    public set DisposeOnCollapse(v: boolean) {
+        this.disposeOnCollapse(v);
+    }
+
+    /**
+     * Sets whether the content is disposed when the container is undisclosed.
+     * @param disposeOnCollapse `true`, if the content is disposed on collapse, otherwise `false`.
+     * @returns This instance.
+     */
+    public disposeOnCollapse(disposeOnCollapse: boolean): this {
+        this._disposeOnCollapse = disposeOnCollapse;
+        return this;
+    }
+
+    /**
+     * Builds the content by invoking the content provider (if the content isn't already built or
+     * pending). Normally this is done automatically when the container is disclosed.
+     * @returns A promise which resolves to `true`, if the content was built, or to `false`, if the
+     * content provider failed or the content was disposed while it was pending.
+     */
+    public load(): Promise<boolean> {
+        return this.lazyContent.load();
+    }
+
+    /**
+     * Disposes the content, it will be rebuilt on the next disclosure. The content of a disclosed
+     * container can't be disposed.
+     * @returns This instance.
+     */
+    public unload(): this {
+        this._disclosed
+            ? undefined
+            : this.lazyContent.unload();
+        return this;
+    }
+
+    /** @inheritdoc */
+    protected override disclosedState(disclosed: boolean): void {
+        super.disclosedState(disclosed);
+        // The content is built before a disclosure is animated, so that its size can be measured.
+        disclosed
+            ? void this.load()
+            : undefined;
+    }
+}
+
+/**
+ * Factory for LazyDisclosureContainer components.
+ */
+export class LazyDisclosureContainerFactory<T> extends ComponentFactory<LazyDisclosureContainer> {
+    /**
+     * Create, set up and return LazyDisclosureContainer component.
+     * @param header The content for the header of the disclosure container (components or string,
+     * in the case of a string, the header content is a `Span` component with the string as the
+     * content).
+     * @param provider The content provider, which is invoked on the first disclosure (and on the
+     * next disclosure after the content was disposed).
+     * @param placeholder The content which is displayed while the content of an asynchronous
+     * content provider is pending.
+     * @param disposeOnCollapse If `true`, the content is disposed when the container is undisclosed.
+     * @param labels The captions/titles for the disclosure button.
+     * @param disclosed `true`, if the initial state of the disclosure container is 'disclosed',
+     * otherwise `false`.
+     * @param appearance The disclosure container appearance (header position and orientation).
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns LazyDisclosureContainer component.
+     */
+    public lazyDisclosureContainer(
+        header: INodeComponent<Node>[] | string | undefined,
+        provider: DisclosureContentProvider,
+        placeholder?: string | (() => INodeComponent<Node>[]),
+        disposeOnCollapse?: boolean,
+        labels: DisclosureContainerLabels = { Captions: ["+", "-"], Titles: ["", ""] }, // eslint-disable-line jsdoc/require-jsdoc
+        disclosed?: boolean,
+        appearance?: DisclosureContainerAppearance,
+        data?: T
+    ): LazyDisclosureContainer {
+        return this.setupComponent(new LazyDisclosureContainer(header, provider, placeholder, disposeOnCollapse, labels, disclosed, appearance), data);
+    }
+}
@@ -0,0 +1,253 @@
+import { ComponentFactory, INodeComponent } from "@vanilla-ts/core";
+import { LazyContent, LazyContentProvider } from "./LazyContent.js";
+import { Tab, TabCloseLabels } from "./TabGroup.js";
+
+
+/**
+ * A function which builds the content of a lazy tab (see `LazyContentProvider`).
+ */
+export type TabContentProvider = LazyContentProvider<LazyTab>;
+
+/**
+ * Policy for disposing the content of lazy tabs, that haven't been used for a while. A policy can be
+ * shared by any number of lazy tabs (also across tab groups). The content of a lazy tab is disposed
+ * - if the tab has been inactive for `InactiveTimeout` milliseconds or
+ * - if more than `MaxLoaded` tabs of this policy have content; the content of the least recently
+ *   used inactive tabs is disposed first.
+ *
+ * The content of an unloaded tab is rebuilt on its next activation.
+ */
+export class TabUnloadPolicy {
+    protected _inactiveTimeout?: number;
+    protected _maxLoaded?: number;
+    // Tabs with (loading) content, the least recently used tab first.
+    protected loadedTabs: LazyTab[] = [];
+    protected timeouts = new Map<LazyTab, ReturnType<typeof setTimeout>>();
+
+    /**
+     * Creates a new policy.
+     * @param inactiveTimeout The time in milliseconds after which the content of an inactive tab is
+     * disposed. If `undefined`, the content isn't disposed by time.
+     * @param maxLoaded The maximum number of tabs that can have content at the same time. If
+     * `undefined`, the number of tabs is unlimited.
+     */
+    constructor(inactiveTimeout?: number, maxLoaded?: number) {
+        this._inactiveTimeout = inactiveTimeout;
+        this._maxLoaded = maxLoaded;
+    }
+
+    /**
+     * Get the time in milliseconds after which the content of an inactive tab is disposed.
+     */
+    public get InactiveTimeout(): number | undefined {
+        return this._inactiveTimeout;
+    }
+
+    /**
+     * Get the maximum number of tabs that can have content at the same time.
+     */
+    public get MaxLoaded(): number | undefined {
+        return this._maxLoaded;
+    }
+
+    /**
+     * Must be called by a lazy tab when it was activated. Marks the tab as the most recently used
+     * tab and disposes the content of other tabs if `MaxLoaded` is exceeded.
+     * @param tab The activated tab.
+     */
+    public activated(tab: LazyTab): void {
+        clearTimeout(this.timeouts.get(tab));
+        this.timeouts.delete(tab);
+        this.loadedTabs = this.loadedTabs.filter(e => e !== tab);
+        this.loadedTabs.push(tab);
+        if (this._maxLoaded === undefined) {
+            return;
+        }
+        for (const loadedTab of this.loadedTabs.slice(0)) {
+            if (this.loadedTabs.length <= this._maxLoaded) {
+                break;
+            }
+            loadedTab.Active
+                ? undefined
+                : loadedTab.unload();
+        }
+    }
+
+    /**
+     * Must be called by a lazy tab with content when it was deactivated. Starts the timer for
+     * disposing the content of the tab.
+     * @param tab The deactivated tab.
+     */
+    public deactivated(tab: LazyTab): void {
+        if (this._inactiveTimeout === undefined) {
+            return;
+        }
+        clearTimeout(this.timeouts.get(tab));
+        this.timeouts.set(tab, setTimeout(() => tab.unload(), this._inactiveTimeout));
+    }
+
+    /**
+     * Must be called by a lazy tab when its content was disposed or when the tab no longer uses
+     * this policy.
+     * @param tab The tab.
+     */
+    public unloaded(tab: LazyTab): void {
+        clearTimeout(this.timeouts.get(tab));
+        this.timeouts.delete(tab);
+        this.loadedTabs = this.loadedTabs.filter(e => e !== tab);
+    }
+}
+
+/**
+ * A tab whose content is built by a content provider on its first activation. While the content of
+ * an asynchronous content provider is pending, a placeholder is displayed. Optionally the content
+ * can be disposed again by a `TabUnloadPolicy`, in this case the content is rebuilt on the next
+ * activation.\
+ * __Note:__ The content provider is responsible for the content, so the content shouldn't be set
+ * with `content()`.
+ */
+export class LazyTab extends Tab {
+    protected lazyContent: LazyContent<LazyTab>;
+    protected _policy?: TabUnloadPolicy;
+
+    /**
+     * Creates a lazy tab.
+     * @param header The content for the header of the tab (components or string, in the case of a
+     * string, the header content is a `Span` component with the string as the content).
+     * @param provider The content provider, which is invoked on the first activation of the tab (and
+     * on the next activation after the content was unloaded).
+     * @param placeholder The content which is displayed while the content of an asynchronous
+     * content provider is pending (string or a function which creates components, in the case of a
+     * string, the content is a `P` component with the string as the content).
+     * @param policy An optional policy for disposing the content of the tab.
+     * @param closeBtn If `true` (default), a standard close button is added to the tab header,
+     * otherwise closing the tab must be done by other means (e.g. a keyboard shortcut).
+     * @param labels The caption/title for the standard tab close button.
+     */
+    constructor(
+        header: INodeComponent<Node>[] | string | undefined,
+        provider: TabContentProvider,
+        placeholder: string | (() => INodeComponent<Node>[]) = "...",
+        policy?: TabUnloadPolicy,
+        closeBtn: boolean = true,
+        labels: TabCloseLabels = { Caption: "x", Title: "" } // eslint-disable-line jsdoc/require-jsdoc
+    ) {
+        super(header, undefined, closeBtn, labels);
+        // A failed tab remains unloaded, so it no longer counts for the policy.
+        this.lazyContent = new LazyContent<LazyTab>(this, this.contentContainer, this.ui, provider, placeholder, () => this._policy?.unloaded(this));
+        this._policy = policy;
+    }
+
+    /**
+     * `true`, if the content of the tab has been built, otherwise `false`.
+     */
+    public get Loaded(): boolean {
+        return this.lazyContent.Loaded;
+    }
+
+    /**
+     * Get/set the policy for disposing the content of the tab.
+     */
+    public get Policy(): TabUnloadPolicy | undefined {
+        return this._policy;
+    }
+    /** @inheritdoc */
+    public set Policy(v: TabUnloadPolicy | undefined) {
+        this.policy(v);
+    }
+
+    /**
+     * Sets the policy for disposing the content of the tab.
+     * @param policy The new policy or `undefined`, if the content is never to be disposed.
+     * @returns This instance.
+     */
+    public policy(policy?: TabUnloadPolicy): this {
+        if (policy !== this._policy) {
+            this._policy?.unloaded(this);
+            this._policy = policy;
+            if (this.lazyContent.Loaded || this.lazyContent.Loading) {
+                this._policy?.activated(this);
+                this.active
+                    ? undefined
+                    : this._policy?.deactivated(this);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Builds the content of the tab by invoking the content provider (if the content isn't already
+     * built or pending). Normally this is done automatically on activation of the tab.
+     * @returns A promise which resolves to `true`, if the content was built, or to `false`, if the
+     * content provider failed or the tab was unloaded while the content was pending.
+     */
+    public load(): Promise<boolean> {
+        return this.lazyContent.load();
+    }
+
+    /**
+     * Disposes the content of the tab, it will be rebuilt on the next activation. The content of
+     * the active tab can't be unloaded.
+     * @returns This instance.
+     */
+    public unload(): this {
+        if (!this.active && this.lazyContent.unload()) {
+            this._policy?.unloaded(this);
+        }
+        return this;
+    }
+
+    /** @inheritdoc */
+    protected override activeState(active: boolean): void {
+        super.activeState(active);
+        if (active) {
+            void this.load();
+            // A content provider, that failed synchronously, leaves the tab unloaded.
+            this.lazyContent.Loaded || this.lazyContent.Loading
+                ? this._policy?.activated(this)
+                : undefined;
+        } else if (this.lazyContent.Loaded || this.lazyContent.Loading) {
+            this._policy?.deactivated(this);
+        }
+    }
+
+    /** @inheritdoc */
+    public override clear(): this {
+        this.lazyContent.invalidate();
+        this._policy?.unloaded(this);
+        super.clear();
+        return this;
+    }
+}
+
+/**
+ * Factory for LazyTab components.
+ */
+export class LazyTabFactory<T> extends ComponentFactory<LazyTab> {
+    /**
+     * Create, set up and return LazyTab component.
+     * @param header The content for the header of the tab (components or string, in the case of a
+     * string, the header content is a `Span` component with the string as the content).
+     * @param provider The content provider, which is invoked on the first activation of the tab (and
+     * on the next activation after the content was unloaded).
+     * @param placeholder The content which is displayed while the content of an asynchronous
+     * content provider is pending.
+     * @param policy An optional policy for disposing the content of the tab.
+     * @param closeBtn If `true` (default), a standard close button is added to the tab header,
+     * otherwise closing the tab must be done by other means (e.g. a keyboard shortcut).
+     * @param labels The caption/title for the standard tab close button.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns LazyTab component.
+     */
+    public lazyTab(
+        header: INodeComponent<Node>[] | string | undefined,
+        provider: TabContentProvider,
+        placeholder?: string | (() => INodeComponent<Node>[]),
+        policy?: TabUnloadPolicy,
+        closeBtn?: boolean,
+        labels: TabCloseLabels = { Caption: "x", Title: "Close" }, // eslint-disable-line jsdoc/require-jsdoc
+        data?: T
+    ): LazyTab {
+        return this.setupComponent(new LazyTab(header, provider, placeholder, policy, closeBtn, labels), data);
+    }
+}
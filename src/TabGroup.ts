@@ -1,5 +1,5 @@
 import { ACustomComponentEvent, AElementComponentWithInternalUI, ComponentFactory, HTMLElementWithChildren, IElementWithChildrenComponent, INodeComponent, NullableBoolean, NullableString } from "@vanilla-ts/core";
-import { Button, Div, P, Span } from "@vanilla-ts/dom";
+import { Button, Div, ISelectValues, P, SelectInput, Span, TextInput } from "@vanilla-ts/dom";
 
 
 /////////////////////////////
@@ -28,6 +28,53 @@ class TabGroupUI extends Div {
     }
 }
 
+/**
+ * Maps the DOM element of the internal UI container of a tab group to the tab group. Used for
+ * detecting the tab group below the pointer while dragging a tab.
+ */
+const tabGroupsByElement = new WeakMap<Element, TabGroup>();
+
+/**
+ * Maps the DOM element of a component to the component, if it implements `ITabAware` (see
+ * `TabGroup.registerTabAware()`). Used for finding these components in the DOM of the content of a
+ * tab.
+ */
+const tabAwareByElement = new WeakMap<Element, ITabAware>();
+
+/**
+ * The distance in pixels a pointer has to be moved with a pressed button on a tab header until
+ * dragging starts.
+ */
+const DRAG_THRESHOLD = 5;
+
+/**
+ * Size of the center area of the tab content (relative to its width/height), in which a dropped tab
+ * is appended instead of being dropped onto an edge (see `EdgeDropHandler`).
+ */
+const EDGE_DROP_CENTER = 0.5;
+
+/**
+ * The duration in milliseconds of a long press on a tab header, that shows the context menu.
+ */
+const LONG_PRESS_DURATION = 500;
+
+/**
+ * The distance of a swipe on the tab content (relative to its width), above which the
+ * previous/next tab is activated.
+ */
+const SWIPE_DISTANCE = 0.3;
+
+/**
+ * The velocity of a swipe on the tab content in pixels per millisecond, above which the
+ * previous/next tab is activated regardless of the distance.
+ */
+const SWIPE_VELOCITY = 0.5;
+
+/**
+ * The duration in milliseconds of the animation after a swipe on the tab content.
+ */
+const SWIPE_ANIMATION_DURATION = 200;
+
 /**
  * Apperance of the tab group (tab headers position).
  */
@@ -38,6 +85,102 @@ export enum TabGroupAppearance {
     LEFT,
 }
 
+/**
+ * Layout of a responsive tab group, if its width falls below the responsive width (see
+ * `TabGroup.responsive()`).
+ */
+export enum TabGroupResponsiveMode {
+    // The tab group isn't responsive.
+    NONE = 0,
+    // The tab headers are replaced by a dropdown selector.
+    DROPDOWN,
+    // The tab headers and the content are stacked like disclosure containers, only the content of
+    // the active tab is expanded.
+    ACCORDION,
+}
+
+/**
+ * Animated transition between the contents of tabs when switching the active tab (see
+ * `TabGroup.Transition`).
+ */
+export enum TabTransition {
+    // The content is switched instantly.
+    NONE = 0,
+    // The old content fades out while the new content fades in.
+    FADE,
+    // The new content slides in, the old content slides out (in the direction of the tab order).
+    SLIDE,
+}
+
+/**
+ * Edge of the tab content of a tab group onto which a tab was dropped.
+ */
+export enum TabDropEdge {
+    TOP = 0,
+    RIGHT,
+    BOTTOM,
+    LEFT,
+}
+
+/**
+ * A function which handles a tab, that was dropped onto an edge of the tab content of `target` (for
+ * example by splitting the area of `target`, see `DockingLayout`).
+ */
+export type TabEdgeDropHandler = (tab: Tab, target: TabGroup, edge: TabDropEdge) => void;
+
+/**
+ * A function which confirms closing a dirty tab (see `Tab.Dirty`), e.g. by asking the user whether
+ * unsaved changes may be discarded.
+ */
+export type TabCloseConfirmer = (tab: Tab) => Promise<boolean> | boolean;
+
+/**
+ * Strategy for selecting the tab, that is activated after the active tab was removed/closed.
+ */
+export enum TabActivationStrategy {
+    // The neighbour of the removed tab (the next tab, or the previous tab if there is no next tab).
+    POSITIONAL = 0,
+    // The most recently used tab.
+    MRU,
+}
+
+/**
+ * Captions/titles (tooltips) for the buttons of a tab group in overflow mode.
+ */
+export type TabGroupOverflowLabels = {
+    /**
+     * Caption/title for the button which scrolls the tab headers backward (towards the first tab).
+     */
+    Backward: string;
+    /**
+     * Caption/title for the button which scrolls the tab headers forward (towards the last tab).
+     */
+    Forward: string;
+    /**
+     * Caption/title for the button which opens the list of all tabs.
+     */
+    Menu: string;
+};
+
+/**
+ * Captions for the entries of the tab context menu and the caption/title for the add tab button of
+ * a tab group.
+ */
+export type TabGroupActionLabels = {
+    /** Caption for closing the tab. */
+    Close: string;
+    /** Caption for closing all other tabs. */
+    CloseOthers: string;
+    /** Caption for closing all tabs after the tab. */
+    CloseAfter: string;
+    /** Caption for pinning the tab. */
+    Pin: string;
+    /** Caption for unpinning the tab. */
+    Unpin: string;
+    /** Caption/title for the add tab button. */
+    AddTab: string;
+};
+
 /**
  * Custom 'tab' event for tab groups.
  */
@@ -48,12 +191,145 @@ export class TabEvent<D extends object = {
     Active: boolean;
 }> extends ACustomComponentEvent<"tab", TabGroup, D> { }
 
+/**
+ * Custom 'tabtransitionend' event for tab groups.
+ */
+export class TabTransitionEndEvent<D extends object = {
+    /** The activated tab. */
+    Tab: Tab;
+    /** The previously active tab. */
+    Previous: Tab;
+}> extends ACustomComponentEvent<"tabtransitionend", TabGroup, D> { }
+
+/**
+ * Custom 'beforeactivate' event for tab groups.
+ */
+export class BeforeActivateEvent<D extends object = {
+    /** The tab which is to be activated. */
+    Tab: Tab;
+    /** The currently active tab. */
+    Previous: Tab;
+}> extends ACustomComponentEvent<"beforeactivate", TabGroup, D> { }
+
+/**
+ * Custom 'beforeclose' event for tab groups.
+ */
+export class BeforeCloseEvent<D extends object = {
+    /** The tab which is to be closed. */
+    Tab: Tab;
+    /**
+     * Event handlers can push promises to this array to defer closing the tab (e.g. for an async
+     * confirmation by the user). The tab is closed only if all promises resolve to `true`. If
+     * closing is prevented synchronously (see `TabGroup.requestCloseTabAsync()`), the promises
+     * aren't awaited.
+     */
+    Confirmations: Promise<boolean>[];
+}> extends ACustomComponentEvent<"beforeclose", TabGroup, D> { }
+
+/**
+ * Custom 'addtab' event for tab groups.
+ */
+export class AddTabEvent<D extends object = {
+    /** The index at which a new tab is expected (the end of the tab group). */
+    Index: number;
+}> extends ACustomComponentEvent<"addtab", TabGroup, D> { }
+
+/**
+ * Custom 'tabsadded' event for tab groups.
+ */
+export class TabsAddedEvent<D extends object = {
+    /** The added tabs. */
+    Tabs: Tab[];
+    /** The indices of the added tabs in the tab group (after adding). */
+    Indices: number[];
+}> extends ACustomComponentEvent<"tabsadded", TabGroup, D> { }
+
+/**
+ * Custom 'tabsremoved' event for tab groups.
+ */
+export class TabsRemovedEvent<D extends object = {
+    /** The removed tabs. */
+    Tabs: Tab[];
+    /** The indices of the removed tabs in the tab group (before removing). */
+    Indices: number[];
+}> extends ACustomComponentEvent<"tabsremoved", TabGroup, D> { }
+
+/**
+ * Custom 'tabsmoved' event for tab groups.
+ */
+export class TabsMovedEvent<D extends object = {
+    /** The moved tabs. */
+    Tabs: Tab[];
+    /** The indices of the moved tabs in `Source` (before moving). */
+    OldIndices: number[];
+    /** The indices of the moved tabs in `Target` (after moving). */
+    NewIndices: number[];
+    /** The tab group from which the tabs were moved. */
+    Source: TabGroup;
+    /** The tab group to which the tabs were moved (the same as `Source` for reordering). */
+    Target: TabGroup;
+}> extends ACustomComponentEvent<"tabsmoved", TabGroup, D> { }
+
+/**
+ * Custom 'tabdrop' event for tab groups.
+ */
+export class TabDropEvent<D extends object = {
+    /** The tab which was dropped. */
+    Tab: Tab;
+    /** The tab group from which the tab was dragged. */
+    Source: TabGroup;
+    /** The tab group onto which the tab was dropped. */
+    Target: TabGroup;
+    /** The insertion index in the tabs of `Target` (before the tab is moved). */
+    Index: number;
+    /**
+     * The edge of the tab content of `Target` onto which the tab was dropped or `undefined`, if the
+     * tab was dropped onto the tab headers (see `EdgeDropHandler`).
+     */
+    Edge?: TabDropEdge;
+}> extends ACustomComponentEvent<"tabdrop", TabGroup, D> { }
+
 /**
  * Additional event(s) for `Tab`.
  */
 export interface TabGroupEventMap extends HTMLElementEventMap {
-    /** A `tab` event occured (on activation/deactivation). */
+    /**
+     * A `tab` event occured (on activation/deactivation). With an animated transition (see
+     * `Transition`) the events are dispatched after the transition.
+     */
     "tab": TabEvent;
+    /** The animated transition between the contents of two tabs ended (see `Transition`). */
+    "tabtransitionend": TabTransitionEndEvent;
+    /**
+     * The active tab is about to be switched to another tab. Event handlers can prevent switching
+     * by calling `preventDefault()`.
+     */
+    "beforeactivate": BeforeActivateEvent;
+    /**
+     * A tab is about to be closed by `requestCloseTab()`. Event handlers can prevent closing by
+     * calling `preventDefault()` or defer closing by pushing a promise to `Confirmations`.
+     */
+    "beforeclose": BeforeCloseEvent;
+    /**
+     * A tab was dropped onto this tab group (dispatched by the target tab group). Event handlers
+     * can prevent moving the tab by calling `preventDefault()`.
+     */
+    "tabdrop": TabDropEvent;
+    /** The add tab button was clicked, the app can create and add a new tab. */
+    "addtab": AddTabEvent;
+    /** Tabs were added to this tab group (`append()`, `insert()`). */
+    "tabsadded": TabsAddedEvent;
+    /**
+     * Tabs were removed from this tab group (`remove()`, `extract()`, `clear()`,
+     * `requestCloseTab()`).
+     */
+    "tabsremoved": TabsRemovedEvent;
+    /**
+     * Tabs were moved inside of this tab group (`insert()`, pinning) or between this and another
+     * tab group (`moveTo()`, `moveToAt()`). Moving tabs between tab groups dispatches this event on
+     * both tab groups, but no `tabsremoved`/`tabsadded` events.
+     */
+    "tabsmoved": TabsMovedEvent;
 }
 
 /**
@@ -70,6 +346,69 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
     protected tabContent: IElementWithChildrenComponent<HTMLDivElement>;
     protected _appearance: TabGroupAppearance;
     protected activeTab?: Tab = undefined;
+    protected _dragAndDrop = false;
+    // Dragging of tabs.
+    private dropIndicator: Div;
+    private dragTab?: Tab;
+    private dragging = false;
+    private dragStart = new DOMPoint(-Infinity, -Infinity);
+    private dropTarget?: { Group: TabGroup; Index: number; Edge?: TabDropEdge; }; // eslint-disable-line jsdoc/require-jsdoc
+    protected _edgeDropHandler?: TabEdgeDropHandler;
+    private fncOnDragPointerDown = this.onDragPointerDown.bind(this);
+    private fncOnDragPointerMove = this.onDragPointerMove.bind(this);
+    private fncOnDragPointerUp = this.onDragPointerUp.bind(this);
+    // Swiping of the tab content.
+    protected _swipe = false;
+    private swipeState?: { StartX: number; StartY: number; X: number; Time: number; Velocity: number; }; // eslint-disable-line jsdoc/require-jsdoc
+    private swiping = false;
+    private swipeAnimation?: Animation;
+    private fncOnSwipePointerMove = this.onSwipePointerMove.bind(this);
+    private fncOnSwipePointerUp = this.onSwipePointerUp.bind(this);
+    // Closing of tabs which is deferred by handlers of `beforeclose`.
+    private pendingCloses = new Map<Tab, Promise<boolean>>();
+    // Structural change events are suspended while tabs are moved between tab groups.
+    private tabsEventsSuspended = false;
+    protected _closeConfirmer?: TabCloseConfirmer;
+    protected _keepAlive = false;
+    // Animated transitions between the contents of tabs.
+    protected _transition = TabTransition.NONE;
+    protected _transitionDuration = 200;
+    private pendingTransition?: { Tab: Tab; Previous: Tab; Animations: Animation[]; }; // eslint-disable-line jsdoc/require-jsdoc
+    private transitionSuppressed = false;
+    // Responsive mode.
+    protected _responsiveMode = TabGroupResponsiveMode.NONE;
+    protected _responsiveWidth = 0;
+    protected collapsed = false;
+    protected tabSelect: SelectInput;
+    private responsiveObserver: ResizeObserver;
+    // Overflow mode.
+    protected _overflow = false;
+    protected _overflowLabels: TabGroupOverflowLabels;
+    protected scrollBackwardBtn: Button;
+    protected scrollForwardBtn: Button;
+    protected overflowMenuBtn: Button;
+    protected overflowMenu: IElementWithChildrenComponent<HTMLDivElement>;
+    private passiveTrue: AddEventListenerOptions = { passive: true }; // eslint-disable-line jsdoc/require-jsdoc
+    private passiveFalse: AddEventListenerOptions = { passive: false }; // eslint-disable-line jsdoc/require-jsdoc
+    private overflowResizeObserver: ResizeObserver;
+    private fncSyncOverflow = this.syncOverflow.bind(this);
+    private fncOnHeadersWheel = this.onHeadersWheel.bind(this);
+    // Context menu and add tab button.
+    protected _contextMenu = false;
+    protected _addButton = false;
+    protected _actionLabels: TabGroupActionLabels;
+    protected tabContextMenu: IElementWithChildrenComponent<HTMLDivElement>;
+    protected addTabBtn: Button;
+    private longPressTimeout?: ReturnType<typeof setTimeout>;
+    // Activation history and tab switcher.
+    protected _activationStrategy = TabActivationStrategy.POSITIONAL;
+    protected _switcher = false;
+    // The most recently used tab first.
+    protected mruTabs: Tab[] = [];
+    protected tabSwitcher: IElementWithChildrenComponent<HTMLDivElement>;
+    private switcherTabs: Tab[] = [];
+    private switcherItems: Button[] = [];
+    private switcherIndex = 0;
 
     /**
      * Creates a new tab group.
@@ -78,7 +417,9 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
     constructor(appearance: TabGroupAppearance = TabGroupAppearance.TOP) {
         super();
         super.initialize()
-            .appearance(appearance);
+            .appearance(appearance)
+            .overflowLabels({ Backward: "<", Forward: ">", Menu: "..." }) // eslint-disable-line jsdoc/require-jsdoc
+            .actionLabels({ Close: "Close", CloseOthers: "Close others", CloseAfter: "Close tabs to the right", Pin: "Pin", Unpin: "Unpin", AddTab: "+" }); // eslint-disable-line jsdoc/require-jsdoc
     }
 
     /** @inheritdoc */
@@ -118,7 +459,8 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
     }
 
     /**
-     * Activates a tab.
+     * Activates a tab. If another tab of this tab group is currently active, a `beforeactivate`
+     * event is dispatched before and the tab is only activated if the event wasn't canceled.
      * @param tab The tab to be activated.
      * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
      * visible to the user.
@@ -128,21 +470,182 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
         if (!tab || tab === this.activeTab || !this.tabs.includes(tab)) {
             return this;
         }
-        for (const tab of this.tabs) {
-            if (tab.Active) {
-                this._dom.dispatchEvent(new TabEvent("tab", this, { Tab: tab, Active: false })); // eslint-disable-line jsdoc/require-jsdoc
-            }
+        // No `beforeactivate` if the active tab was removed from this tab group.
+        if (this.activeTab
+            && this.tabs.includes(this.activeTab)
+            && !this._dom.dispatchEvent(new BeforeActivateEvent("beforeactivate", this, { Tab: tab, Previous: this.activeTab })) // eslint-disable-line jsdoc/require-jsdoc
+        ) {
+            return this;
         }
+        this.finishTransition();
+        const previous = this.activeTab && this.tabs.includes(this.activeTab)
+            ? this.activeTab
+            : undefined;
+        const transition = previous
+            && this._transition !== TabTransition.NONE
+            && !this.transitionSuppressed
+            && !(this.collapsed && this._responsiveMode === TabGroupResponsiveMode.ACCORDION)
+            && !matchMedia("(prefers-reduced-motion: reduce)").matches;
+        // With a transition, the old tab stays active (and its content present) until the end of
+        // the transition, only the headers are updated immediately.
+        transition
+            ? undefined
+            : this.notifyDeactivation(tab);
         this.activeTab = tab;
+        this.mruTabs = [tab, ...this.mruTabs.filter(e => e !== tab)];
         makeVisisble
             ? tab.DOM.scrollIntoView({ behavior: "auto", block: "nearest", inline: "nearest" }) // eslint-disable-line jsdoc/require-jsdoc
             : undefined;
-        this.tabContent.remove();
-        this.tabContent.append(tab.Content);
+        if (this._keepAlive) {
+            this.mountContents();
+            for (const other of this.tabs) {
+                other === tab || (transition && other === previous)
+                    ? undefined
+                    : contentContainerOf(other)?.show(false);
+            }
+            contentContainerOf(tab)?.show(true);
+        } else {
+            transition
+                ? this.tabContent.remove(...this.tabContent.Children.filter(e => e !== previous.Content))
+                : this.tabContent.remove();
+            // The content may have been hidden in keep-alive mode (of another tab group).
+            contentContainerOf(tab)?.show(true, false);
+            this.tabContent.append(tab.Content);
+        }
+        this.collapsed
+            ? this.syncCollapsed()
+            : undefined;
+        if (transition) {
+            previous.headerState(false);
+            tab.headerState(true);
+            this.startTransition(tab, previous);
+        } else {
+            this.notifyActivation(tab);
+        }
+        return this;
+    }
+
+    /**
+     * Dispatches `tab` events for the deactivation of the active tab(s) and notifies their
+     * `ITabAware` components.
+     * @param tab The tab which is activated (it isn't deactivated).
+     */
+    private notifyDeactivation(tab: Tab): void {
+        for (const other of this.tabs) {
+            if (other.Active && other !== tab) {
+                this._dom.dispatchEvent(new TabEvent("tab", this, { Tab: other, Active: false })); // eslint-disable-line jsdoc/require-jsdoc
+                getTabAwareComponents(other).forEach(e => e.onTabDeactivated?.(other));
+            }
+        }
+    }
+
+    /**
+     * Dispatches the `tab` event for the activation of a tab and notifies its `ITabAware`
+     * components.
+     * @param tab The activated tab.
+     */
+    private notifyActivation(tab: Tab): void {
         this._dom.dispatchEvent(new TabEvent("tab", this, { Tab: tab, Active: true })); // eslint-disable-line jsdoc/require-jsdoc
+        getTabAwareComponents(tab).forEach(e => e.onTabActivated?.(tab));
+    }
+
+    /**
+     * Get the animated transition between the contents of tabs when switching the active tab.
+     */
+    public get Transition(): TabTransition {
+        return this._transition;
+    }
+    /** @inheritdoc */
+    public set Transition(v: TabTransition) {
+        this.transition(v);
+    }
+
+    /**
+     * Get the duration in milliseconds of the animated transition between the contents of tabs.
+     */
+    public get TransitionDuration(): number {
+        return this._transitionDuration;
+    }
+
+    /**
+     * Sets the animated transition between the contents of tabs when switching the active tab.
+     * During the transition the old and the new content are both present and only the tab headers
+     * show the new active tab. The `tab` events for the deactivation of the old tab and the
+     * activation of the new tab are dispatched after the transition, followed by a
+     * `tabtransitionend` event. Transitions are disabled if the user prefers reduced motion and in
+     * the accordion layout of a collapsed tab group.
+     * @param transition The transition.
+     * @param duration The duration in milliseconds of the transition.
+     * @returns This instance.
+     */
+    public transition(transition: TabTransition, duration: number = this._transitionDuration): this {
+        this.finishTransition();
+        this._transition = transition;
+        this._transitionDuration = duration;
         return this;
     }
 
+    /**
+     * Starts the animated transition from the content of `previous` to the content of `tab`. Both
+     * contents are stacked (see CSS) until the transition ends.
+     * @param tab The tab which is activated.
+     * @param previous The previously active tab.
+     */
+    private startTransition(tab: Tab, previous: Tab): void {
+        let incoming: Keyframe[];
+        let outgoing: Keyframe[];
+        /* eslint-disable jsdoc/require-jsdoc */
+        if (this._transition === TabTransition.FADE) {
+            incoming = [{ opacity: 0 }, { opacity: 1 }];
+            outgoing = [{ opacity: 1 }, { opacity: 0 }];
+        } else {
+            // The tab headers of `LEFT` are in reversed order (the first tab is at the bottom).
+            const axis = this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM ? "X" : "Y";
+            const sign = (this.tabs.indexOf(tab) > this.tabs.indexOf(previous) ? 1 : -1) * (this._appearance === TabGroupAppearance.LEFT ? -1 : 1);
+            incoming = [{ transform: `translate${axis}(${sign * 100}%)` }, { transform: "none" }];
+            outgoing = [{ transform: "none" }, { transform: `translate${axis}(${-sign * 100}%)` }];
+        }
+        this.ui.addClass("transitioning");
+        const animations = [
+            // Keep the old content invisible until it is removed.
+            previous.Content.DOM.animate(outgoing, { duration: this._transitionDuration, easing: "ease-in-out", fill: "forwards" }),
+            tab.Content.DOM.animate(incoming, { duration: this._transitionDuration, easing: "ease-in-out" })
+        ];
+        /* eslint-enable */
+        this.pendingTransition = { Tab: tab, Previous: previous, Animations: animations }; // eslint-disable-line jsdoc/require-jsdoc
+        animations[1].onfinish = (): void => this.finishTransition(); // eslint-disable-line jsdoc/require-jsdoc
+    }
+
+    /**
+     * Finishes the running transition between the contents of tabs (if any) immediately. The old
+     * content is removed (or hidden in keep-alive mode) and the `tab` events and the
+     * `tabtransitionend` event are dispatched.
+     */
+    protected finishTransition(): void {
+        const transition = this.pendingTransition;
+        if (!transition) {
+            return;
+        }
+        this.pendingTransition = undefined;
+        transition.Animations.forEach(e => e.cancel());
+        this.ui.removeClass("transitioning");
+        // The activated tab may have been removed in the meantime.
+        const activated = this.activeTab === transition.Tab && this.tabs.includes(transition.Tab);
+        activated
+            ? this.notifyDeactivation(transition.Tab)
+            : undefined;
+        this._keepAlive
+            ? contentContainerOf(transition.Previous)?.show(false)
+            : this.tabContent.Children.includes(transition.Previous.Content)
+                ? this.tabContent.remove(transition.Previous.Content)
+                : undefined;
+        if (!activated) {
+            return;
+        }
+        this.notifyActivation(transition.Tab);
+        this._dom.dispatchEvent(new TabTransitionEndEvent("tabtransitionend", this, { Tab: transition.Tab, Previous: transition.Previous })); // eslint-disable-line jsdoc/require-jsdoc
+    }
+
     /**
      * Get/set the appearance of the tab group (tab headers position).
      */
@@ -179,130 +682,734 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
                     break;
             }
             this.ui.addClass(clazz);
+            this.tabHeadersContainer.attrib(
+                "aria-orientation",
+                this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM
+                    ? "horizontal"
+                    : "vertical"
+            );
             this.activeTab?.DOM.scrollIntoView({ behavior: "auto", block: "nearest", inline: "nearest" }); // eslint-disable-line jsdoc/require-jsdoc
+            this.syncOverflow();
         }
         return this;
     }
 
     /**
-     * Makes the first tab the active tab.
-     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
-     * visible to the user.
-     * @returns This instance.
+     * Get/set the overflow mode of the tab group. In overflow mode buttons for scrolling the tab
+     * headers are displayed (if the tab headers overflow), the tab headers can be scrolled with the
+     * mouse wheel and a button opens a list of all tabs, which can be used to activate any tab.
      */
-    public first(makeVisisble: boolean = true): this {
-        return this.active(this.tabs[0], makeVisisble);
+    public get Overflow(): boolean {
+        return this._overflow;
+    }
+    /** @inheritdoc */
+    public set Overflow(v: boolean) {
+        this.overflow(v);
     }
 
     /**
-     * Makes the tab active, which preceeds the active tab. This function cycles, so if the first
-     * tab is active the last tab is activated.
-     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
-     * visible to the user.
+     * Turns the overflow mode on or off.
+     * @param overflow `true`, if the overflow mode is to be used, otherwise `false`.
      * @returns This instance.
      */
-    public previous(makeVisisble: boolean = true): this {
-        const index = this.tabs.indexOf(this.activeTab!);
-        switch (index) {
-            case -1:
-                return this;
-            case 0:
-                return this.last(makeVisisble);
-            default:
-                return this.active(this.tabs[index - 1], makeVisisble);
+    public overflow(overflow: boolean): this {
+        if (overflow !== this._overflow) {
+            this._overflow = overflow;
+            const headers = this.tabHeadersContainer.DOM;
+            if (this._overflow) {
+                headers.addEventListener("scroll", this.fncSyncOverflow, this.passiveTrue);
+                headers.addEventListener("wheel", this.fncOnHeadersWheel, this.passiveFalse);
+                this.overflowResizeObserver.observe(headers);
+                this.ui.addClass("overflow");
+                this.syncOverflow();
+            } else {
+                headers.removeEventListener("scroll", this.fncSyncOverflow, this.passiveTrue);
+                headers.removeEventListener("wheel", this.fncOnHeadersWheel, this.passiveFalse);
+                this.overflowResizeObserver.unobserve(headers);
+                this.overflowMenu.DOM.matches(":popover-open")
+                    ? this.overflowMenu.DOM.hidePopover()
+                    : undefined;
+                this.ui.removeClass("overflow", "overflowing");
+            }
         }
+        return this;
     }
 
     /**
-     * Makes the tab active, which follows the active tab. This function cycles, so if the last
-     * tab is active the first tab is activated.
-     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
-     * visible to the user.
+     * Get the captions/titles for the buttons in overflow mode. Returns a _copy_ of the current
+     * captions/titles!
+     */
+    public get OverflowLabels(): TabGroupOverflowLabels {
+        return { ...this._overflowLabels };
+    }
+    /** @inheritdoc */
+    public set OverflowLabels(v: TabGroupOverflowLabels) {
+        this.overflowLabels(v);
+    }
+
+    /**
+     * Set new captions/titles for the buttons in overflow mode. No reference to the given labels
+     * object is held!
+     * @param labels The new captions/titles.
      * @returns This instance.
      */
-    public next(makeVisisble: boolean = true): this {
-        const index = this.tabs.indexOf(this.activeTab!);
-        switch (index) {
-            case -1:
-                return this;
-            case this.tabs.length - 1:
-                return this.first(makeVisisble);
-            default:
-                return this.active(this.tabs[index + 1], makeVisisble);
-        }
+    public overflowLabels(labels: TabGroupOverflowLabels): this {
+        this._overflowLabels = {
+            /* eslint-disable jsdoc/require-jsdoc */
+            Backward: labels.Backward ?? "<",
+            Forward: labels.Forward ?? ">",
+            Menu: labels.Menu ?? "..."
+            /* eslint-enable */
+        };
+        this.scrollBackwardBtn
+            .text(this._overflowLabels.Backward)
+            .title(this._overflowLabels.Backward);
+        this.scrollForwardBtn
+            .text(this._overflowLabels.Forward)
+            .title(this._overflowLabels.Forward);
+        this.overflowMenuBtn
+            .text(this._overflowLabels.Menu)
+            .title(this._overflowLabels.Menu);
+        return this;
     }
 
     /**
-     * Makes the last tab the active tab.
-     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
-     * visible to the user.
+     * Scrolls the tab headers by (almost) the visible length of the tab headers container.
+     * @param forward `true`, if the tab headers are to be scrolled forward (towards the last tab),
+     * `false`, if they are to be scrolled backward (towards the first tab).
      * @returns This instance.
      */
-    public last(makeVisisble: boolean = true): this {
-        return this.active(this.tabs.at(-1), makeVisisble);
+    public scrollHeaders(forward: boolean): this {
+        const headers = this.tabHeadersContainer.DOM;
+        const horizontal = this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM;
+        const length = (horizontal ? headers.clientWidth : headers.clientHeight) * 0.8;
+        // The tab headers are in reversed order with `LEFT` (see CSS, `column-reverse`), so 'forward'
+        // means 'up'.
+        const distance = forward !== (this._appearance === TabGroupAppearance.LEFT) ? length : -length;
+        /* eslint-disable jsdoc/require-jsdoc */
+        headers.scrollBy(horizontal
+            ? { left: distance, behavior: "smooth" }
+            : { top: distance, behavior: "smooth" }
+        );
+        /* eslint-enable */
+        return this;
+    }
+    /**
+     * Get/set whether tabs can be dragged with the pointer. Dragged tabs can be reordered inside
+     * this tab group or be dropped onto other tab groups, which also have `DragAndDrop` enabled.
+     */
+    public get DragAndDrop(): boolean {
+        return this._dragAndDrop;
+    }
+    /** @inheritdoc */
+    public set DragAndDrop(v: boolean) {
+        this.dragAndDrop(v);
     }
 
     /**
-     * Requests the activation of a tab. The only reason for the existence of this function is that
-     * tabs themselves can issue a request to be activated. The normal behavior is that every tab
-     * calls this function if the user clicked inside the tab header or on the tab header itself
-     * (except for the close button). The function can be used from elsewhere but this is considered
-     * to be unusual.
-     * @param tab The tab to be activated.
-     * @returns `true`, if the tab was activated, `false`, if the tab wasn't activated. It is
-     * impossible for the caller to determine why a tab was _not_ activated, so the class
-     * `TabGroup` can/should be overridden if more detailed checks are required. Currently the
-     * function always returns `true` (if `tab` is part of this tab group).
+     * Enables/disables dragging of tabs with the pointer.
+     * @param dragAndDrop `true`, if tabs can be dragged and dropped, otherwise `false`.
+     * @returns This instance.
      */
-    public requestActivateTab(tab: Tab): boolean {
-        if (!this.tabs.includes(tab)) {
-            return false;
+    public dragAndDrop(dragAndDrop: boolean): this {
+        if (dragAndDrop !== this._dragAndDrop) {
+            this._dragAndDrop = dragAndDrop;
+            if (this._dragAndDrop) {
+                this.ui.addClass("drag-and-drop");
+            } else {
+                this.endDrag();
+                this.ui.removeClass("drag-and-drop");
+            }
         }
-        this.active(tab);
-        return true;
+        return this;
     }
 
     /**
-     * Requests the closing of a tab. The only reason for the existence of this function is that
-     * tabs themselves can issue a request to be closed. The function can be used from elsewhere but
-     * this is considered to be unusual.
-     * @param tab The tab to be closed.
-     * @returns `true`, if the tab was closed, `false`, if the tab wasn't closed. It is impossible
-     * for the caller to determine why a tab was _not_ closed, so the class `TabGroup` can/should be
-     * overridden if more detailed checks are required. __Note:__ A tab that was closed by calling
-     * `requestCloseTab` will also be disposed! If this isn't the desired behavior, `remove()` or
-     * `extract()` must be used.
+     * Get/set whether the previous/next tab can be activated by swiping the tab content
+     * horizontally (touch and pen input only). Swipes don't start on horizontally scrollable
+     * elements inside the content (e.g. a `ScrollContainer`), so these can still be scrolled.
      */
-    public requestCloseTab(tab: Tab): boolean {
-        const index = this.tabs.indexOf(tab);
-        if (index === -1) {
-            return false;
-        }
-        const wasActive = this.tabs[index] === this.activeTab;
-        this.remove(tab);
-        tab.dispose();
-        wasActive
-            ? this.active(this.tabs[index] ?? this.tabs.at(-1))
-            : undefined;
-        return true;
+    public get Swipe(): boolean {
+        return this._swipe;
+    }
+    /** @inheritdoc */
+    public set Swipe(v: boolean) {
+        this.swipe(v);
     }
 
     /**
-     * Appends tabs to this tab group. If there were no tabs in this tab group before appending, the
-     * first tab of `tabs` is activated.
-     * @param tabs The tabs to be appended. Any tab, that is already part of this tab group or
-     * connected or mounted elsewhere (header or content), is ignored.
+     * Enables/disables swiping the tab content. While swiping, the content follows the pointer.
+     * When the pointer is released after a sufficient distance or with a sufficient velocity, the
+     * previous (swipe to the right) or next (swipe to the left) tab is activated with `previous()`
+     * or `next()`, otherwise the content snaps back.
+     * @param swipe `true`, if the tab content can be swiped, otherwise `false`.
      * @returns This instance.
      */
-    public append(...tabs: Tab[]): this {
-        if (tabs.length === 0) {
-            return this;
+    public swipe(swipe: boolean): this {
+        if (swipe !== this._swipe) {
+            this._swipe = swipe;
+            if (this._swipe) {
+                this.ui.addClass("swipe");
+            } else {
+                this.endSwipe();
+                this.ui.removeClass("swipe");
+            }
         }
-        const newTabs: Tab[] = [];
-        for (const tab of [...new Set(tabs)]) {
-            if (tab.Parent
-                || tab.Connected
-                || tab.Content.Parent
+        return this;
+    }
+
+    /**
+     * Get/set the handler for tabs, that are dropped onto an edge of the tab content of this tab
+     * group. If a handler is set, dragging a tab over the tab content highlights the nearest edge
+     * (dragging over the center of the tab content appends the tab as usual).
+     */
+    public get EdgeDropHandler(): TabEdgeDropHandler | undefined {
+        return this._edgeDropHandler;
+    }
+    /** @inheritdoc */
+    public set EdgeDropHandler(v: TabEdgeDropHandler | undefined) {
+        this.edgeDropHandler(v);
+    }
+
+    /**
+     * Sets the handler for tabs, that are dropped onto an edge of the tab content of this tab group.
+     * @param handler The new handler or `undefined`, if tabs can't be dropped onto the edges.
+     * @returns This instance.
+     */
+    public edgeDropHandler(handler?: TabEdgeDropHandler): this {
+        this._edgeDropHandler = handler;
+        return this;
+    }
+
+    /**
+     * Get/set the availability of the context menu for tabs (on a right-click or a long press on a
+     * tab header).
+     */
+    public get ContextMenu(): boolean {
+        return this._contextMenu;
+    }
+    /** @inheritdoc */
+    public set ContextMenu(v: boolean) {
+        this.contextMenu(v);
+    }
+
+    /**
+     * Turns the context menu for tabs on or off.
+     * @param contextMenu `true`, if the context menu is available, otherwise `false`.
+     * @returns This instance.
+     */
+    public contextMenu(contextMenu: boolean): this {
+        this._contextMenu = contextMenu;
+        this._contextMenu || !this.tabContextMenu.DOM.matches(":popover-open")
+            ? undefined
+            : this.tabContextMenu.DOM.hidePopover();
+        return this;
+    }
+
+    /**
+     * Get/set the availability of the add tab button (after the last tab header). A click on the
+     * button dispatches an `addtab` event.
+     */
+    public get AddButton(): boolean {
+        return this._addButton;
+    }
+    /** @inheritdoc */
+    public set AddButton(v: boolean) {
+        this.addButton(v);
+    }
+
+    /**
+     * Adds/removes the add tab button.
+     * @param addButton `true`, if the add tab button is displayed, otherwise `false`.
+     * @returns This instance.
+     */
+    public addButton(addButton: boolean): this {
+        if (addButton !== this._addButton) {
+            this._addButton = addButton;
+            this._addButton
+                ? this.tabHeadersContainer.DOM.appendChild(this.addTabBtn.DOM)
+                : this.addTabBtn.DOM.remove();
+            this.syncOverflow();
+        }
+        return this;
+    }
+
+    /**
+     * Get the captions for the context menu and the add tab button. Returns a _copy_ of the
+     * current captions!
+     */
+    public get ActionLabels(): TabGroupActionLabels {
+        return { ...this._actionLabels };
+    }
+    /** @inheritdoc */
+    public set ActionLabels(v: TabGroupActionLabels) {
+        this.actionLabels(v);
+    }
+
+    /**
+     * Set new captions for the context menu and the add tab button. No reference to the given
+     * labels object is held!
+     * @param labels The new captions.
+     * @returns This instance.
+     */
+    public actionLabels(labels: TabGroupActionLabels): this {
+        this._actionLabels = {
+            /* eslint-disable jsdoc/require-jsdoc */
+            Close: labels.Close ?? "Close",
+            CloseOthers: labels.CloseOthers ?? "Close others",
+            CloseAfter: labels.CloseAfter ?? "Close tabs to the right",
+            Pin: labels.Pin ?? "Pin",
+            Unpin: labels.Unpin ?? "Unpin",
+            AddTab: labels.AddTab ?? "+"
+            /* eslint-enable */
+        };
+        this.addTabBtn
+            .text(this._actionLabels.AddTab)
+            .attrib("title", this._actionLabels.AddTab);
+        return this;
+    }
+
+    /**
+     * Moves pinned tabs in front of all unpinned tabs (the relative order of the pinned tabs is
+     * retained). This is done automatically when tabs are added/inserted or (un)pinned.
+     * @returns This instance.
+     */
+    public arrangePinnedTabs(): this {
+        const firstUnpinned = this.tabs.find(e => !e.Pinned);
+        if (!firstUnpinned) {
+            return this;
+        }
+        const misplaced = this.tabs.slice(this.tabs.indexOf(firstUnpinned)).filter(e => e.Pinned);
+        if (misplaced.length > 0) {
+            const oldIndices = misplaced.map(e => this.tabs.indexOf(e));
+            this.tabHeadersContainer.insert(firstUnpinned, ...misplaced);
+            this.syncTabs();
+            this.dispatchTabsMoved(misplaced, oldIndices);
+        }
+        return this;
+    }
+
+    /**
+     * Get the layout of the tab group, if it is responsive (see `responsive()`).
+     */
+    public get ResponsiveMode(): TabGroupResponsiveMode {
+        return this._responsiveMode;
+    }
+
+    /**
+     * Get the width in pixels below which a responsive tab group is collapsed.
+     */
+    public get ResponsiveWidth(): number {
+        return this._responsiveWidth;
+    }
+
+    /**
+     * `true`, if the tab group is responsive and currently collapsed (narrower than
+     * `ResponsiveWidth`), otherwise `false`.
+     */
+    public get Collapsed(): boolean {
+        return this.collapsed;
+    }
+
+    /**
+     * Makes the tab group responsive. The width of the tab group is observed, below `width` the tab
+     * headers are collapsed into a dropdown selector or an accordion-like layout (depending on
+     * `mode`), if there is enough room again, the regular layout is restored. Only the layout
+     * changes, the tabs and their content stay mounted, so the active tab and the state of the
+     * content are retained.
+     * @param mode The layout of the collapsed tab group, `NONE` turns the responsive mode off.
+     * @param width The width in pixels below which the tab group is collapsed.
+     * @returns This instance.
+     */
+    public responsive(mode: TabGroupResponsiveMode, width: number = 0): this {
+        this._responsiveMode = mode;
+        this._responsiveWidth = width;
+        this._responsiveMode === TabGroupResponsiveMode.NONE
+            ? this.responsiveObserver.unobserve(this.ui.DOM)
+            : this.responsiveObserver.observe(this.ui.DOM);
+        this.syncResponsive();
+        return this;
+    }
+
+    /**
+     * Collapses/expands the tab group according to its current width (responsive mode only).
+     */
+    protected syncResponsive(): void {
+        this.collapsed = this._responsiveMode !== TabGroupResponsiveMode.NONE
+            && this.ui.DOM.getBoundingClientRect().width < this._responsiveWidth;
+        this.ui.removeClass("collapsed", "dropdown", "accordion");
+        this.collapsed
+            ? this.ui.addClass("collapsed", this._responsiveMode === TabGroupResponsiveMode.DROPDOWN ? "dropdown" : "accordion")
+            : undefined;
+        this.syncCollapsed();
+    }
+
+    /**
+     * Updates the dropdown selector or the order of the tab headers and contents in the
+     * accordion-like layout (see CSS) of a collapsed tab group.
+     */
+    protected syncCollapsed(): void {
+        const accordion = this.collapsed && this._responsiveMode === TabGroupResponsiveMode.ACCORDION;
+        this.tabs.forEach((tab, i) => {
+            // Every content is placed directly below its header.
+            tab.DOM.style.order = accordion ? String(2 * i) : "";
+            tab.Content.DOM.style.order = accordion ? String(2 * i + 1) : "";
+            accordion
+                ? tab.DOM.setAttribute("aria-expanded", String(tab === this.activeTab))
+                : tab.DOM.removeAttribute("aria-expanded");
+        });
+        this.syncTabSelect(this.collapsed && this._responsiveMode === TabGroupResponsiveMode.DROPDOWN);
+    }
+
+    /**
+     * Rebuilds the dropdown selector of a collapsed tab group with the titles of the tabs (see
+     * `Tab.Title`), the value of an option is the index of its tab.
+     * @param dropdown `true`, if the tab group is collapsed in dropdown mode, otherwise `false` (the
+     * selector has no options).
+     */
+    private syncTabSelect(dropdown: boolean): void {
+        const focused = document.activeElement === this.tabSelect.DOM;
+        const select = this.createTabSelect(
+            dropdown ? this.tabs.map((tab, i) => ({ Value: String(i), Text: tab.Title })) : [], // eslint-disable-line jsdoc/require-jsdoc
+            dropdown && this.activeTab ? String(this.tabs.indexOf(this.activeTab)) : undefined
+        );
+        this.ui.insert(this.tabSelect, select);
+        this.ui.remove(this.tabSelect);
+        this.tabSelect.dispose();
+        this.tabSelect = select;
+        focused
+            ? select.DOM.focus()
+            : undefined;
+    }
+
+    /**
+     * Creates the dropdown selector of a collapsed tab group (responsive mode), it is hidden by CSS
+     * otherwise.
+     * @param values The options.
+     * @param value The value of the selected option.
+     * @returns The selector.
+     */
+    private createTabSelect(values: ISelectValues[], value?: string): SelectInput {
+        return new SelectInput(values, undefined, value)
+            .addClass("tab-select")
+            .on("change", () => this.onTabSelectChange());
+    }
+
+    /**
+     * Activates the tab selected in the dropdown selector of a collapsed tab group.
+     */
+    private onTabSelectChange(): void {
+        const tab = this.tabs[Number(this.tabSelect.Value)];
+        tab && this.requestActivateTab(tab)
+            ? undefined
+            : this.syncCollapsed(); // Activation was prevented, reset the selection.
+    }
+
+    /**
+     * Get/set the keep-alive mode. By default only the content of the active tab is part of the
+     * DOM, switching tabs removes the former content and adds the new content (so the content is
+     * unmounted/mounted). In keep-alive mode the content of all tabs stays in the DOM and the
+     * content of inactive tabs is hidden (`hidden` and `inert`), so scroll positions, focus, media
+     * playback etc. are retained and switching is instant. Instead of being unmounted/mounted, the
+     * direct children of the content are notified by a `tabcontent` event (see `TabContentEvent`).
+     */
+    public get KeepAlive(): boolean {
+        return this._keepAlive;
+    }
+    /** @inheritdoc */
+    public set KeepAlive(v: boolean) {
+        this.keepAlive(v);
+    }
+
+    /**
+     * Turns the keep-alive mode on or off.
+     * @param keepAlive `true`, if the content of all tabs stays in the DOM, otherwise `false`.
+     * @returns This instance.
+     */
+    public keepAlive(keepAlive: boolean): this {
+        if (keepAlive !== this._keepAlive) {
+            this._keepAlive = keepAlive;
+            if (this._keepAlive) {
+                this.mountContents();
+            } else {
+                for (const tab of this.tabs) {
+                    tab === this.activeTab
+                        ? undefined
+                        : tab.Content.Parent?.remove(tab.Content);
+                    contentContainerOf(tab)?.show(true, false);
+                }
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the function, that confirms closing dirty tabs (see `Tab.Dirty`). If no function is
+     * set, dirty tabs are closed like any other tab.
+     */
+    public get CloseConfirmer(): TabCloseConfirmer | undefined {
+        return this._closeConfirmer;
+    }
+    /** @inheritdoc */
+    public set CloseConfirmer(v: TabCloseConfirmer | undefined) {
+        this.closeConfirmer(v);
+    }
+
+    /**
+     * Sets the function, that confirms closing dirty tabs.
+     * @param confirmer The new function or `undefined`, if closing dirty tabs needn't be confirmed.
+     * @returns This instance.
+     */
+    public closeConfirmer(confirmer?: TabCloseConfirmer): this {
+        this._closeConfirmer = confirmer;
+        return this;
+    }
+
+    /**
+     * Get/set the strategy for selecting the tab, that is activated after the active tab was
+     * removed/closed.
+     */
+    public get ActivationStrategy(): TabActivationStrategy {
+        return this._activationStrategy;
+    }
+    /** @inheritdoc */
+    public set ActivationStrategy(v: TabActivationStrategy) {
+        this.activationStrategy(v);
+    }
+
+    /**
+     * Sets the strategy for selecting the tab, that is activated after the active tab was
+     * removed/closed.
+     * @param strategy The new strategy.
+     * @returns This instance.
+     */
+    public activationStrategy(strategy: TabActivationStrategy): this {
+        this._activationStrategy = strategy;
+        return this;
+    }
+
+    /**
+     * Get the tabs of this tab group in the order of their most recent activation (the active tab
+     * first, tabs that have never been activated last). Returns a _copy_ of the internal array!
+     */
+    public get MostRecentlyUsed(): Tab[] {
+        return this.mruTabs.slice(0);
+    }
+
+    /**
+     * Get/set the availability of the tab switcher. If enabled, `Ctrl+Tab`/`Ctrl+Shift+Tab`
+     * (while the focus is inside of the tab group) display a list of all tabs in the order of their
+     * most recent activation and cycle through it. Releasing `Ctrl` activates the selected tab,
+     * `Escape` cancels switching.\
+     * __Note:__ Some browsers don't pass `Ctrl+Tab` to the page, in this case `cycleSwitcher()`
+     * can be bound to another shortcut.
+     */
+    public get Switcher(): boolean {
+        return this._switcher;
+    }
+    /** @inheritdoc */
+    public set Switcher(v: boolean) {
+        this.switcher(v);
+    }
+
+    /**
+     * Turns the tab switcher on or off.
+     * @param switcher `true`, if the tab switcher is available, otherwise `false`.
+     * @returns This instance.
+     */
+    public switcher(switcher: boolean): this {
+        this._switcher = switcher;
+        this._switcher
+            ? undefined
+            : this.closeSwitcher(false);
+        return this;
+    }
+
+    /**
+     * Makes the first tab the active tab.
+     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
+     * visible to the user.
+     * @returns This instance.
+     */
+    public first(makeVisisble: boolean = true): this {
+        return this.active(this.tabs[0], makeVisisble);
+    }
+
+    /**
+     * Makes the tab active, which preceeds the active tab. This function cycles, so if the first
+     * tab is active the last tab is activated.
+     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
+     * visible to the user.
+     * @returns This instance.
+     */
+    public previous(makeVisisble: boolean = true): this {
+        const index = this.tabs.indexOf(this.activeTab!);
+        switch (index) {
+            case -1:
+                return this;
+            case 0:
+                return this.last(makeVisisble);
+            default:
+                return this.active(this.tabs[index - 1], makeVisisble);
+        }
+    }
+
+    /**
+     * Makes the tab active, which follows the active tab. This function cycles, so if the last
+     * tab is active the first tab is activated.
+     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
+     * visible to the user.
+     * @returns This instance.
+     */
+    public next(makeVisisble: boolean = true): this {
+        const index = this.tabs.indexOf(this.activeTab!);
+        switch (index) {
+            case -1:
+                return this;
+            case this.tabs.length - 1:
+                return this.first(makeVisisble);
+            default:
+                return this.active(this.tabs[index + 1], makeVisisble);
+        }
+    }
+
+    /**
+     * Makes the last tab the active tab.
+     * @param makeVisisble If `true`, the tab group is scrolled (if needed) so that the tab is
+     * visible to the user.
+     * @returns This instance.
+     */
+    public last(makeVisisble: boolean = true): this {
+        return this.active(this.tabs.at(-1), makeVisisble);
+    }
+
+    /**
+     * Requests the activation of a tab. The only reason for the existence of this function is that
+     * tabs themselves can issue a request to be activated. The normal behavior is that every tab
+     * calls this function if the user clicked inside the tab header or on the tab header itself
+     * (except for the close button). The function can be used from elsewhere but this is considered
+     * to be unusual.
+     * @param tab The tab to be activated.
+     * @returns `true`, if the tab was activated, `false`, if the tab wasn't activated (it isn't
+     * part of this tab group or activation was prevented by a handler of `beforeactivate`).
+     */
+    public requestActivateTab(tab: Tab): boolean {
+        if (!this.tabs.includes(tab)) {
+            return false;
+        }
+        this.active(tab);
+        return this.activeTab === tab;
+    }
+
+    /**
+     * Requests the closing of a tab. The only reason for the existence of this function is that
+     * tabs themselves can issue a request to be closed. The function can be used from elsewhere but
+     * this is considered to be unusual. Closing can be prevented or deferred, the final result of a
+     * deferred request is returned by `requestCloseTabAsync()`.
+     * @param tab The tab to be closed.
+     * @returns `true`, if the tab was closed synchronously, `false`, if the tab wasn't closed (yet).
+     * It is impossible for the caller to determine why a tab was _not_ closed. __Note:__ A tab that
+     * was closed by calling `requestCloseTab` will also be disposed! If this isn't the desired
+     * behavior, `remove()` or `extract()` must be used.
+     */
+    public requestCloseTab(tab: Tab): boolean {
+        const included = this.tabs.includes(tab);
+        void this.requestCloseTabAsync(tab);
+        return included && !this.tabs.includes(tab);
+    }
+
+    /**
+     * Requests the closing of a tab like `requestCloseTab()`, but returns the final result. Before
+     * closing, a `beforeclose` event is dispatched, whose handlers can prevent or defer closing the
+     * tab. Afterwards `onTabClosing()` of all `ITabAware` components in the content of the tab is
+     * called, which can also prevent or defer closing. Closing a dirty tab is also deferred until
+     * the `CloseConfirmer` (if any) confirms it. If nothing defers closing, the tab is closed
+     * synchronously. Pinned tabs can't be closed.\
+     * A synchronous veto (a prevented `beforeclose` event or `false` returned by `onTabClosing()`)
+     * ends the request immediately: the remaining `ITabAware` components aren't asked and the
+     * promises, that were already added to `Confirmations` of the `beforeclose` event, are
+     * abandoned (they aren't awaited).
+     * @param tab The tab to be closed.
+     * @returns A promise which resolves to `true`, if the tab was closed, or to `false`, if the tab
+     * wasn't closed (it isn't part of this tab group, it is pinned or closing was prevented by a
+     * handler of `beforeclose`). If there is already a pending request for closing `tab`, the
+     * promise of this request is returned. __Note:__ A tab that was closed will also be disposed!
+     */
+    public requestCloseTabAsync(tab: Tab): Promise<boolean> {
+        if (!this.tabs.includes(tab) || tab.Pinned) {
+            return Promise.resolve(false);
+        }
+        const pending = this.pendingCloses.get(tab);
+        if (pending) {
+            return pending;
+        }
+        const confirmations: Promise<boolean>[] = [];
+        if (!this._dom.dispatchEvent(new BeforeCloseEvent("beforeclose", this, { Tab: tab, Confirmations: confirmations }))) { // eslint-disable-line jsdoc/require-jsdoc
+            return Promise.resolve(false);
+        }
+        for (const component of getTabAwareComponents(tab)) {
+            const result = component.onTabClosing?.(tab);
+            if (result === false) {
+                return Promise.resolve(false);
+            }
+            result instanceof Promise
+                ? confirmations.push(result)
+                : undefined;
+        }
+        const confirmer = this._closeConfirmer;
+        tab.Dirty && confirmer
+            ? confirmations.push(Promise.resolve().then(() => confirmer(tab)))
+            : undefined;
+        if (confirmations.length === 0) {
+            return Promise.resolve(this.closeTab(tab));
+        }
+        const result = Promise.all(confirmations)
+            .then(results => results.every(e => e), () => false)
+            .then(confirmed => confirmed && this.closeTab(tab))
+            // An error while closing (e.g. thrown by `dispose()` of the content) is reported, the
+            // request itself is considered as failed.
+            .catch((error: unknown) => {
+                reportError(error);
+                return false;
+            })
+            .finally(() => this.pendingCloses.delete(tab));
+        this.pendingCloses.set(tab, result);
+        return result;
+    }
+
+    /**
+     * Closes (removes and disposes) a tab. If the tab was the active tab, another tab is activated
+     * according to `ActivationStrategy`. Called by `requestCloseTabAsync()` after all checks have
+     * been passed.
+     * @param tab The tab to be closed.
+     * @returns `true`, if the tab was closed, `false`, if `tab` isn't part of this tab group
+     * (anymore).
+     */
+    protected closeTab(tab: Tab): boolean {
+        if (!this.tabs.includes(tab)) {
+            return false;
+        }
+        this.remove(tab);
+        tab.dispose();
+        return true;
+    }
+
+    /**
+     * Appends tabs to this tab group. If there were no tabs in this tab group before appending, the
+     * first tab of `tabs` is activated.
+     * @param tabs The tabs to be appended. Any tab, that is already part of this tab group or
+     * connected or mounted elsewhere (header or content), is ignored.
+     * @returns This instance.
+     */
+    public append(...tabs: Tab[]): this {
+        if (tabs.length === 0) {
+            return this;
+        }
+        const newTabs: Tab[] = [];
+        for (const tab of [...new Set(tabs)]) {
+            if (tab.Parent
+                || tab.Connected
+                || tab.Content.Parent
                 || tab.Content.Connected
             ) {
                 continue;
@@ -313,201 +1420,1110 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
         if (!firstTab) {
             return this;
         }
-        const wasEmpty = this.tabs.length === 0;
-        this.tabHeadersContainer.append(...newTabs);
-        this.syncTabs();
-        wasEmpty
-            ? this.active(firstTab, true)
-            : undefined;
+        const wasEmpty = this.tabs.length === 0;
+        this.tabHeadersContainer.append(...newTabs);
+        this.syncTabs();
+        this.dispatchTabsEvent(new TabsAddedEvent("tabsadded", this, { Tabs: newTabs, Indices: newTabs.map(e => this.tabs.indexOf(e)) })); // eslint-disable-line jsdoc/require-jsdoc
+        this.arrangePinnedTabs();
+        wasEmpty
+            ? this.active(firstTab, true)
+            : undefined;
+        return this;
+    }
+
+    /**
+     * Inserts tabs at a numeric index or the index of a tab reference of this tab group. This
+     * function can be used to move tabs inside this tab group, e.g.
+     * `this.insert(2, this.Tabs[3], this.Tabs.at(-1))`.
+     * @param at The target index in this tab group. If `at` is lower than `0` it is considered to
+     * be `0`. If `at` is greater than or equal to the number of tabs in this tab group the given
+     * tabs will be appended. If `at` is a tab the tab will be inserted at the position of `at`
+     * within this tab group. If this tab group has no tabs, `at` is ignored and the tabs are
+     * appended.
+     * @param tabs The tabs to insert. Any tab, that is already a part of another tab group, is
+     * ignored. The only exception is tabs, that belong to this tab group (for moving tabs inside
+     * this tab group).
+     * @returns This instance.
+     */
+    public insert(at: number | Tab, ...tabs: Tab[]): this {
+        if (tabs.length === 0) {
+            return this;
+        }
+        const tabs_: Tab[] = [];
+        /**
+         * - Allow tabs from inside this tab group.
+         * - Exclude tabs, that are already part of another tab group. `[...new Set(tabs)]` avoids
+         *   multiple unnecessary `remove`/`onBeforeMount`/`onDidMount` operations.
+         */
+        for (const tab of [...new Set(tabs)]) {
+            if (this.tabs.includes(tab)) {
+                tabs_.push(tab);
+            } else if (tab.Parent
+                || tab.Connected
+                || tab.Content.Parent
+                || tab.Content.Connected
+            ) {
+                continue;
+            } else {
+                tabs_.push(tab);
+            }
+        }
+        const moved = tabs_.filter(e => this.tabs.includes(e));
+        const oldIndices = moved.map(e => this.tabs.indexOf(e));
+        const added = tabs_.filter(e => !moved.includes(e));
+        this.tabHeadersContainer.insert(at, ...tabs_);
+        this.syncTabs();
+        added.length > 0
+            ? this.dispatchTabsEvent(new TabsAddedEvent("tabsadded", this, { Tabs: added, Indices: added.map(e => this.tabs.indexOf(e)) })) // eslint-disable-line jsdoc/require-jsdoc
+            : undefined;
+        this.dispatchTabsMoved(moved, oldIndices);
+        this.arrangePinnedTabs();
+        return this;
+    }
+
+    /**
+     * Removes tabs from this tab group.
+     * @param tabs The tabs to be removed. If the length of `tabs` is `0`, _all_ tabs are removed
+     * (but not disposed). Any element of `tabs`, that isn't a tab of this tab group, is ignored. 
+     * @returns This instance.
+     */
+    public remove(...tabs: Tab[]): this {
+        if (tabs.length === 0) {
+            return this;
+        }
+        const tabsToRemove = [...new Set(tabs)].filter(e => this.tabs.includes(e));
+        if (tabsToRemove.length === 0) {
+            return this;
+        }
+        // Get new tab to activate after removal (if `remove()` includes the active tab).
+        const newActiveTab = this.getTabToActivateAfterRemoval(tabsToRemove);
+        const indices = tabsToRemove.map(e => this.tabs.indexOf(e));
+        for (const tab of tabsToRemove) {
+            tab.Content.Parent?.remove(tab.Content);
+        }
+        this.tabHeadersContainer.remove(...tabsToRemove);
+        this.syncTabs();
+        this.active(newActiveTab);
+        this.dispatchTabsEvent(new TabsRemovedEvent("tabsremoved", this, { Tabs: tabsToRemove, Indices: indices })); // eslint-disable-line jsdoc/require-jsdoc
+        return this;
+    }
+
+    /**
+     * Extracts tabs from this tab group. The extracted tabs will be pushed to the array given by
+     * `to`. If the length of `tabs` is `0` _all_ tabs of this tab group will be extracted and
+     * pushed to `to`.
+     * @param to An array to which the extracted tabs will be pushed.
+     * @param tabs The tabs to be extracted. Any element of `tabs`, that isn't a tab of this tab
+     * group, is ignored.
+     * @returns This instance.
+     */
+    public extract(to: Tab[], ...tabs: Tab[]): this {
+        if (tabs.length === 0) {
+            const extracted = this.tabs;
+            for (const tab of this.tabs) {
+                tab.Content.Parent?.remove(tab.Content);
+            }
+            this.tabHeadersContainer.extract(to, ...tabs);
+            this.syncTabs();
+            extracted.length > 0
+                ? this.dispatchTabsEvent(new TabsRemovedEvent("tabsremoved", this, { Tabs: extracted, Indices: extracted.map((_, i) => i) })) // eslint-disable-line jsdoc/require-jsdoc
+                : undefined;
+            return this;
+        }
+        const tabsToExtract = [...new Set(tabs)].filter(e => this.tabs.includes(e));
+        if (tabsToExtract.length === 0) {
+            return this;
+        }
+        // Get new tab to activate after extraction (if `extract()` includes the active tab).
+        const newActiveTab = this.getTabToActivateAfterRemoval(tabsToExtract);
+        const indices = tabsToExtract.map(e => this.tabs.indexOf(e));
+        for (const tab of tabsToExtract) {
+            tab.Content.Parent?.remove(tab.Content);
+        }
+        this.tabHeadersContainer.extract(to, ...tabsToExtract);
+        this.syncTabs();
+        this.active(newActiveTab);
+        this.dispatchTabsEvent(new TabsRemovedEvent("tabsremoved", this, { Tabs: tabsToExtract, Indices: indices })); // eslint-disable-line jsdoc/require-jsdoc
+        return this;
+    }
+
+    /**
+     * Extracts and appends tabs from this the instance to another `TabGroup` instance. If the
+     * length of `tabs` is `0` _all_ tabs of this tab group will be extracted and appended to
+     * `target`. If `target` is this instance, an exception will be thrown.
+     * @param target The target instance to which the tabs are to be appended.
+     * @param tabs The tabs to be extracted and appended. Any element of `tabs`, that isn't a tab of
+     * this tab group, is ignored.
+     * @returns This instance.
+     */
+    public moveTo(target: TabGroup, ...tabs: Tab[]): this {
+        if (target === this) {
+            throw new Error("TabGroup: 'moveTo' isn't supported inside TabGroup.");
+        }
+        return this.moveBetweenGroups(target, tabs, extracted => target.append(...extracted));
+    }
+
+    /**
+     * Extracts and inserts tabs from this the instance into another `TabGroup` instance. If the
+     * length of `tabs` is `0` _all_ tabs of this tab group will be extracted and inserted into
+     * `target`. If `target` is this instance, an exception will be thrown.
+     * @param target The target instance into which the tabs are to be inserted.
+     * @param at The target index in the tabs collection of `target`. If `at` is lower than `0` it
+     * is considered to be `0`. If `at` is greater or equal to `target.Tabs.length` the given tabs
+     * will be appended. If `at` is a tab in `target` the tabs will be inserted at the position of
+     * `at` in `target.Tabs`. If `at` is not a tab of `target` an exception will be thrown.
+     * @param tabs The tabs to be moved. Any element of `tabs`, that isn't a tab of this tab group,
+     * is ignored.
+     * @returns This instance.
+     */
+    public moveToAt(target: TabGroup, at: number | Tab, ...tabs: Tab[]): this {
+        if (target === this) {
+            throw new Error("TabGroup: 'moveToAt' isn't supported inside TabGroup.");
+        }
+        if (typeof at !== "number" && !target.Tabs.includes(at)) {
+            throw new Error("TabGroup: param 'at' for 'moveToAt' isn't a child of 'target'.");
+        }
+        return this.moveBetweenGroups(target, tabs, extracted => target.insert(at, ...extracted));
+    }
+
+    /**
+     * @see `moveTo()` and `moveToAt()`.
+     */
+    /* eslint-disable-next-line jsdoc/require-jsdoc */
+    private moveBetweenGroups(target: TabGroup, tabs: Tab[], addToTarget: (extracted: Tab[]) => void): this {
+        const candidates = tabs.length === 0 ? this.tabs : tabs;
+        const oldIndices = new Map(candidates.map(e => [e, this.tabs.indexOf(e)]));
+        const extracted: Tab[] = [];
+        // Restored afterwards, since moving can be nested in other suspending operations.
+        const [suspended, targetSuspended] = [this.tabsEventsSuspended, target.tabsEventsSuspended];
+        this.tabsEventsSuspended = target.tabsEventsSuspended = true;
+        try {
+            this.extract(extracted, ...tabs);
+            // this.syncTabs(); // Done in `extract()`.
+            addToTarget(extracted);
+        } finally {
+            this.tabsEventsSuspended = suspended;
+            target.tabsEventsSuspended = targetSuspended;
+        }
+        const moved = extracted.filter(e => target.tabs.includes(e));
+        if (moved.length > 0) {
+            /* eslint-disable jsdoc/require-jsdoc */
+            const detail = {
+                Tabs: moved,
+                OldIndices: moved.map(e => oldIndices.get(e) ?? -1),
+                NewIndices: moved.map(e => target.tabs.indexOf(e)),
+                Source: this,
+                Target: target
+            };
+            /* eslint-enable */
+            this.dispatchTabsEvent(new TabsMovedEvent("tabsmoved", this, { ...detail }));
+            target.dispatchTabsEvent(new TabsMovedEvent("tabsmoved", target, { ...detail }));
+        }
+        return this;
+    }
+
+    /**
+     * Dispatches a `tabsmoved` event for tabs, that were moved inside of this tab group.
+     * @param tabs The moved tabs.
+     * @param oldIndices The indices of the moved tabs before moving.
+     */
+    private dispatchTabsMoved(tabs: Tab[], oldIndices: number[]): void {
+        tabs.length > 0
+            ? this.dispatchTabsEvent(new TabsMovedEvent("tabsmoved", this, { Tabs: tabs, OldIndices: oldIndices, NewIndices: tabs.map(e => this.tabs.indexOf(e)), Source: this, Target: this })) // eslint-disable-line jsdoc/require-jsdoc
+            : undefined;
+    }
+
+    /**
+     * Dispatches a structural change event (`tabsadded`, `tabsremoved`, `tabsmoved`), unless these
+     * events are suspended while tabs are moved between tab groups.
+     * @param ev The event.
+     */
+    private dispatchTabsEvent(ev: TabsAddedEvent | TabsRemovedEvent | TabsMovedEvent): void {
+        this.tabsEventsSuspended
+            ? undefined
+            : this._dom.dispatchEvent(ev);
+    }
+
+    /**
+     * Creates a JSON-serializable snapshot of this tab group. Only tabs with `Persistence` are
+     * included in the snapshot.
+     * @returns The snapshot (tab order, stable keys, app-specific state and the active tab).
+     */
+    public snapshot(): TabGroupSnapshot {
+        const tabs: TabSnapshot[] = [];
+        for (const tab of this.tabs) {
+            const persistence = tab.Persistence;
+            if (!persistence) {
+                continue;
+            }
+            const tabSnapshot: TabSnapshot = { Type: persistence.Type, Key: persistence.Key }; // eslint-disable-line jsdoc/require-jsdoc
+            const state = persistence.State?.();
+            state !== undefined
+                ? tabSnapshot.State = state
+                : undefined;
+            tab.Pinned
+                ? tabSnapshot.Pinned = true
+                : undefined;
+            tabs.push(tabSnapshot);
+        }
+        return { Tabs: tabs, Active: this.activeTab?.Persistence?.Key }; // eslint-disable-line jsdoc/require-jsdoc
+    }
+
+    /**
+     * Restores a snapshot created by `snapshot()`. Tabs of this tab group with a key listed in the
+     * snapshot are kept and reordered, tabs with a listed key in one of `peers` are moved to this
+     * tab group and missing tabs are created by `registry`. All other tabs are removed _and
+     * disposed_. For restoring multiple tab groups at once use `TabGroup.restoreLayout()`.
+     * @param snapshot The snapshot to be restored.
+     * @param registry The registry for creating missing tabs.
+     * @param peers Other tab groups from which tabs with a listed key are moved to this tab group.
+     * @returns This instance.
+     */
+    public restore(snapshot: TabGroupSnapshot, registry: TabRegistry, peers: TabGroup[] = []): this {
+        this.restoreTabs(snapshot, registry, peers);
+        this.finishRestore(snapshot);
+        return this;
+    }
+
+    /**
+     * Creates JSON-serializable snapshots of multiple tab groups (e.g. all tab groups of a page).
+     * @param groups The tab groups.
+     * @returns The snapshots, in the order of `groups`.
+     */
+    public static snapshotLayout(groups: TabGroup[]): TabGroupSnapshot[] {
+        return groups.map(e => e.snapshot());
+    }
+
+    /**
+     * Registers a component, that implements `ITabAware`. Components in the content of a tab, that
+     * are reachable through the (public) children of the content, are registered automatically.
+     * Components in the internal UI of other components (e.g. the content of a
+     * `DisclosureContainer`) must be registered by this function to be notified.
+     * @param component The component.
+     */
+    public static registerTabAware(component: ITabAware & INodeComponent<Node>): void {
+        component.DOM instanceof Element
+            ? tabAwareByElement.set(component.DOM, component)
+            : undefined;
+    }
+
+    /**
+     * Restores snapshots of multiple tab groups created by `TabGroup.snapshotLayout()`. Tabs which
+     * are listed in the snapshot of another tab group are moved between the tab groups, so their
+     * content is preserved. Tabs which aren't listed in any snapshot are removed _and disposed_.
+     * @param groups The tab groups.
+     * @param snapshots The snapshots, in the order of `groups`.
+     * @param registry The registry for creating missing tabs.
+     */
+    public static restoreLayout(groups: TabGroup[], snapshots: TabGroupSnapshot[], registry: TabRegistry): void {
+        groups.forEach((group, i) => group.restoreTabs(snapshots[i] ?? { Tabs: [] }, registry, groups)); // eslint-disable-line jsdoc/require-jsdoc
+        groups.forEach((group, i) => group.finishRestore(snapshots[i] ?? { Tabs: [] })); // eslint-disable-line jsdoc/require-jsdoc
+    }
+
+    /**
+     * Brings the tabs listed in a snapshot into the order of the snapshot by reordering, moving
+     * (from `peers`) or creating tabs.
+     * @param snapshot The snapshot to be restored.
+     * @param registry The registry for creating missing tabs.
+     * @param peers Other tab groups from which tabs with a listed key are moved to this tab group.
+     */
+    protected restoreTabs(snapshot: TabGroupSnapshot, registry: TabRegistry, peers: TabGroup[]): void {
+        let index = 0;
+        for (const tabSnapshot of snapshot.Tabs) {
+            const tab = this.tabs.find(e => e.Persistence?.Key === tabSnapshot.Key);
+            if (tab) {
+                // Tabs before `index` are already restored, so `tab` can only be at `index` or after.
+                this.tabs.indexOf(tab) !== index
+                    ? this.insert(this.tabs[index], tab)
+                    : undefined;
+                index++;
+                continue;
+            }
+            const peer = peers.find(e => e !== this && e.Tabs.some(t => t.Persistence?.Key === tabSnapshot.Key));
+            if (peer) {
+                peer.moveToAt(this, this.tabs[index] ?? index, peer.Tabs.find(e => e.Persistence?.Key === tabSnapshot.Key)!);
+                index++;
+                continue;
+            }
+            const newTab = registry.create(tabSnapshot);
+            if (newTab) {
+                this.insert(index, newTab);
+                index++;
+            }
+        }
+    }
+
+    /**
+     * Removes and disposes all tabs, which aren't listed in a snapshot, and activates the tab,
+     * which was active when the snapshot was created (or the first tab).
+     * @param snapshot The restored snapshot.
+     */
+    protected finishRestore(snapshot: TabGroupSnapshot): void {
+        const keys = new Set(snapshot.Tabs.map(e => e.Key));
+        const unlisted = this.tabs.filter(e => {
+            const key = e.Persistence?.Key;
+            return key === undefined || !keys.has(key);
+        });
+        this.remove(...unlisted);
+        for (const tab of unlisted) {
+            tab.dispose();
+        }
+        for (const tabSnapshot of snapshot.Tabs) {
+            this.tabs.find(e => e.Persistence?.Key === tabSnapshot.Key)?.pinned(tabSnapshot.Pinned === true);
+        }
+        this.active(
+            this.tabs.find(e => snapshot.Active !== undefined && e.Persistence?.Key === snapshot.Active)
+            ?? this.activeTab
+            ?? this.tabs[0]
+        );
+    }
+
+    /**
+     * Updates the internal array with tab components. The reference is always the container which
+     * holds the tabs (`this.tabHeadersContainer`).
+     */
+    protected syncTabs(): void {
+        this.tabs = <Tab[]>this.tabHeadersContainer.Children.slice(0);
+        this.finishTransition();
+        if (this.tabs.length === 0) {
+            this.activeTab = undefined;
+        }
+        // New tabs are the least recently used tabs.
+        this.mruTabs = [
+            ...this.mruTabs.filter(e => this.tabs.includes(e)),
+            ...this.tabs.filter(e => !this.mruTabs.includes(e))
+        ];
+        this._keepAlive
+            ? this.mountContents()
+            : undefined;
+        this.collapsed
+            ? this.syncCollapsed()
+            : undefined;
+        this.syncOverflow();
+    }
+
+    /**
+     * Adds the content of all tabs, that isn't already mounted, to the tab content (keep-alive mode
+     * only). The content of inactive tabs is hidden.
+     */
+    protected mountContents(): void {
+        for (const tab of this.tabs) {
+            if (tab.Content.Parent !== this.tabContent) {
+                contentContainerOf(tab)?.show(tab === this.activeTab, false);
+                this.tabContent.append(tab.Content);
+            }
+        }
+    }
+
+    /**
+     * Syncs the visibility and the state of the scroll buttons with the scroll position and the
+     * size of the tab headers (overflow mode only).
+     */
+    protected syncOverflow(): void {
+        if (!this._overflow) {
+            return;
+        }
+        requestAnimationFrame(() => {
+            const headers = this.tabHeadersContainer.DOM;
+            const horizontal = this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM;
+            // `Math.abs()`, since `scrollTop` is negative with `column-reverse` (`LEFT`).
+            const position = Math.abs(horizontal ? headers.scrollLeft : headers.scrollTop);
+            const max = horizontal
+                ? headers.scrollWidth - headers.clientWidth
+                : headers.scrollHeight - headers.clientHeight;
+            max > 1
+                ? this.ui.addClass("overflowing")
+                : this.ui.removeClass("overflowing");
+            this.scrollBackwardBtn.disabled(position <= 1);
+            this.scrollForwardBtn.disabled(position >= max - 1);
+        });
+    }
+
+    /**
+     * Scrolls horizontal tab headers with a vertical mouse wheel (overflow mode only).
+     * @param ev The wheel event.
+     */
+    private onHeadersWheel(ev: WheelEvent): void {
+        if ((this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM)
+            && Math.abs(ev.deltaY) > Math.abs(ev.deltaX)
+        ) {
+            ev.preventDefault();
+            // `deltaMode` 1 means lines instead of pixels (e.g. Firefox).
+            this.tabHeadersContainer.DOM.scrollBy({ left: ev.deltaMode === 1 ? ev.deltaY * 16 : ev.deltaY }); // eslint-disable-line jsdoc/require-jsdoc
+        }
+    }
+
+    /**
+     * Fills the list of all tabs (overflow mode) before it is opened and disposes the list items
+     * after it was closed.
+     * @param ev The toggle event of the popover.
+     */
+    protected onOverflowMenuToggle(ev: ToggleEvent): void {
+        if (ev.type === "beforetoggle" && ev.newState === "open") {
+            this.overflowMenu.clear();
+            for (const tab of this.tabs) {
+                const item = new Button(tab.Header.DOM.textContent ?? "")
+                    .attrib("role", "menuitem")
+                    .on("click", () => {
+                        this.overflowMenu.DOM.hidePopover();
+                        this.requestActivateTab(tab)
+                            ? tab.DOM.focus()
+                            : undefined;
+                    });
+                tab === this.activeTab
+                    ? item.addClass("active").attrib("aria-current", "true")
+                    : undefined;
+                this.overflowMenu.append(item);
+            }
+        } else if (ev.type === "toggle" && ev.newState === "open") {
+            const btnRect = this.overflowMenuBtn.DOM.getBoundingClientRect();
+            this.placePopover(this.overflowMenu, btnRect.left, btnRect.bottom, btnRect.top);
+        } else if (ev.type === "toggle" && ev.newState === "closed") {
+            this.clearClosedPopover(this.overflowMenu);
+        }
+    }
+
+    /**
+     * Positions an open popover (overflow list, context menu) inside of the viewport. Popovers are
+     * displayed in the top layer, so they have to be positioned manually.
+     * @param popover The popover.
+     * @param x The preferred left position (client coordinates).
+     * @param y The preferred top position (client coordinates).
+     * @param flipY The bottom position, that is used if there isn't enough space below `y`.
+     */
+    protected placePopover(popover: IElementWithChildrenComponent<HTMLDivElement>, x: number, y: number, flipY: number): void {
+        const rect = popover.DOM.getBoundingClientRect();
+        popover
+            .style("left", Math.max(0, Math.min(x, window.innerWidth - rect.width)) + "px")
+            .style("top", (y + rect.height > window.innerHeight
+                ? Math.max(0, flipY - rect.height)
+                : y) + "px");
+    }
+
+    /**
+     * Disposes the items of a closed popover. The `toggle` event is dispatched asynchronously, so
+     * the popover may already be open again (with new items).
+     * @param popover The popover.
+     */
+    private clearClosedPopover(popover: IElementWithChildrenComponent<HTMLDivElement>): void {
+        popover.DOM.matches(":popover-open")
+            ? undefined
+            : popover.clear();
+    }
+
+    /**
+     * Shows the context menu for a tab. Normally the context menu is shown automatically on a
+     * right-click or a long press on a tab header if `ContextMenu` is enabled.
+     * @param tab The tab for which the context menu is shown.
+     * @param x The left position of the context menu (client coordinates).
+     * @param y The top position of the context menu (client coordinates).
+     * @returns This instance.
+     */
+    public showContextMenu(tab: Tab, x: number, y: number): this {
+        if (!this.tabs.includes(tab)) {
+            return this;
+        }
+        const others = this.tabs.filter(e => e !== tab && !e.Pinned);
+        const after = this.tabs.slice(this.tabs.indexOf(tab) + 1).filter(e => !e.Pinned);
+        this.tabContextMenu.clear();
+        this.tabContextMenu.append(
+            this.contextMenuItem(this._actionLabels.Close, tab.Pinned, () => this.requestCloseTab(tab)),
+            this.contextMenuItem(this._actionLabels.CloseOthers, others.length === 0, () => others.forEach(e => this.requestCloseTab(e))),
+            this.contextMenuItem(this._actionLabels.CloseAfter, after.length === 0, () => after.forEach(e => this.requestCloseTab(e))),
+            this.contextMenuItem(tab.Pinned ? this._actionLabels.Unpin : this._actionLabels.Pin, false, () => tab.pinned(!tab.Pinned))
+        );
+        this.tabContextMenu.DOM.matches(":popover-open")
+            ? undefined
+            : this.tabContextMenu.DOM.showPopover();
+        this.placePopover(this.tabContextMenu, x, y, y);
         return this;
     }
 
     /**
-     * Inserts tabs at a numeric index or the index of a tab reference of this tab group. This
-     * function can be used to move tabs inside this tab group, e.g.
-     * `this.insert(2, this.Tabs[3], this.Tabs.at(-1))`.
-     * @param at The target index in this tab group. If `at` is lower than `0` it is considered to
-     * be `0`. If `at` is greater than or equal to the number of tabs in this tab group the given
-     * tabs will be appended. If `at` is a tab the tab will be inserted at the position of `at`
-     * within this tab group. If this tab group has no tabs, `at` is ignored and the tabs are
-     * appended.
-     * @param tabs The tabs to insert. Any tab, that is already a part of another tab group, is
-     * ignored. The only exception is tabs, that belong to this tab group (for moving tabs inside
-     * this tab group).
+     * Creates an item of the context menu.
+     * @param caption The caption of the item.
+     * @param disabled `true`, if the item is disabled, otherwise `false`.
+     * @param action The action, that is executed if the item is clicked.
+     * @returns The item.
+     */
+    private contextMenuItem(caption: string, disabled: boolean, action: () => void): Button {
+        return new Button(caption)
+            .attrib("role", "menuitem")
+            .disabled(disabled)
+            .on("click", () => {
+                this.tabContextMenu.DOM.hidePopover();
+                action();
+            });
+    }
+
+    /**
+     * Shows the context menu on a right-click on a tab header (or the context menu key).
+     * @param ev The mouse event.
+     */
+    private onHeadersContextMenu(ev: MouseEvent): void {
+        const tab = this.tabs.find(e => e.DOM.contains(<Node>ev.target));
+        if (!this._contextMenu || !tab) {
+            return;
+        }
+        ev.preventDefault();
+        // Triggered by keyboard, there are no pointer coordinates.
+        if (ev.clientX === 0 && ev.clientY === 0) {
+            const rect = tab.DOM.getBoundingClientRect();
+            this.showContextMenu(tab, rect.left, rect.bottom);
+        } else {
+            this.showContextMenu(tab, ev.clientX, ev.clientY);
+        }
+    }
+
+    /**
+     * Starts detecting a long press on a tab header for showing the context menu on touch devices
+     * (not every UA dispatches a `contextmenu` event on a long press).
+     * @param ev The pointer event.
+     */
+    private onLongPressPointerDown(ev: PointerEvent): void {
+        clearTimeout(this.longPressTimeout);
+        const tab = this.tabs.find(e => e.DOM.contains(<Node>ev.target));
+        if (!this._contextMenu || !tab || ev.pointerType !== "touch") {
+            return;
+        }
+        const start = new DOMPoint(ev.clientX, ev.clientY);
+        const cancel = (e: PointerEvent): void => { // eslint-disable-line jsdoc/require-jsdoc
+            if (e.type === "pointermove" && Math.hypot(e.clientX - start.x, e.clientY - start.y) < DRAG_THRESHOLD) {
+                return;
+            }
+            clearTimeout(this.longPressTimeout);
+            this.tabHeadersContainer.DOM.removeEventListener("pointermove", cancel);
+            this.tabHeadersContainer.DOM.removeEventListener("pointerup", cancel);
+            this.tabHeadersContainer.DOM.removeEventListener("pointercancel", cancel);
+        };
+        this.tabHeadersContainer.DOM.addEventListener("pointermove", cancel);
+        this.tabHeadersContainer.DOM.addEventListener("pointerup", cancel);
+        this.tabHeadersContainer.DOM.addEventListener("pointercancel", cancel);
+        this.longPressTimeout = setTimeout(() => {
+            cancel(new PointerEvent("pointercancel"));
+            this.showContextMenu(tab, start.x, start.y);
+        }, LONG_PRESS_DURATION);
+    }
+
+    /**
+     * Opens the tab switcher (if it isn't already open) and selects the next/previous entry in it.
+     * Normally this is done automatically on `Ctrl+Tab`/`Ctrl+Shift+Tab` if `Switcher` is enabled.
+     * @param forward `true`, if the next (less recently used) tab is to be selected, `false`, if
+     * the previous tab is to be selected.
      * @returns This instance.
      */
-    public insert(at: number | Tab, ...tabs: Tab[]): this {
-        if (tabs.length === 0) {
+    public cycleSwitcher(forward: boolean = true): this {
+        if (this.tabs.length === 0) {
             return this;
         }
-        const tabs_: Tab[] = [];
-        /**
-         * - Allow tabs from inside this tab group.
-         * - Exclude tabs, that are already part of another tab group. `[...new Set(tabs)]` avoids
-         *   multiple unnecessary `remove`/`onBeforeMount`/`onDidMount` operations.
-         */
-        for (const tab of [...new Set(tabs)]) {
-            if (this.tabs.includes(tab)) {
-                tabs_.push(tab);
-            } else if (tab.Parent
-                || tab.Connected
-                || tab.Content.Parent
-                || tab.Content.Connected
-            ) {
-                continue;
-            } else {
-                tabs_.push(tab);
-            }
+        if (!this.tabSwitcher.DOM.matches(":popover-open")) {
+            this.switcherTabs = this.mruTabs.slice(0);
+            this.switcherIndex = 0;
+            this.tabSwitcher.clear();
+            this.switcherItems = this.switcherTabs.map((tab, index) => new Button(tab.Header.DOM.textContent ?? "")
+                .attrib("role", "option")
+                .attrib("tabindex", "-1")
+                .on("click", () => {
+                    this.switcherIndex = index;
+                    this.closeSwitcher(true);
+                })
+            );
+            this.tabSwitcher.append(...this.switcherItems);
+            this.tabSwitcher.DOM.showPopover();
         }
-        this.tabHeadersContainer.insert(at, ...tabs_);
-        this.syncTabs();
+        const count = this.switcherTabs.length;
+        this.switcherIndex = (this.switcherIndex + (forward ? 1 : -1) + count) % count;
+        this.switcherItems.forEach((item, index) => index === this.switcherIndex
+            ? item.addClass("active").attrib("aria-selected", "true")
+            : item.removeClass("active").attrib("aria-selected", "false")
+        );
+        this.switcherItems[this.switcherIndex].DOM.scrollIntoView({ block: "nearest" }); // eslint-disable-line jsdoc/require-jsdoc
         return this;
     }
 
     /**
-     * Removes tabs from this tab group.
-     * @param tabs The tabs to be removed. If the length of `tabs` is `0`, _all_ tabs are removed
-     * (but not disposed). Any element of `tabs`, that isn't a tab of this tab group, is ignored. 
+     * Closes the tab switcher (if it is open).
+     * @param activate If `true`, the tab selected in the tab switcher is activated.
      * @returns This instance.
      */
-    public remove(...tabs: Tab[]): this {
-        if (tabs.length === 0) {
+    public closeSwitcher(activate: boolean): this {
+        if (!this.tabSwitcher.DOM.matches(":popover-open")) {
             return this;
         }
-        const tabsToRemove = [...new Set(tabs)].filter(e => this.tabs.includes(e));
-        if (tabsToRemove.length === 0) {
-            return this;
+        const tab = this.switcherTabs[this.switcherIndex];
+        this.switcherTabs = [];
+        this.switcherItems = [];
+        this.tabSwitcher.DOM.hidePopover();
+        activate && tab && this.requestActivateTab(tab)
+            ? tab.DOM.focus()
+            : undefined;
+        return this;
+    }
+
+    /**
+     * Handles the keyboard for the tab switcher.
+     * @param ev The keyboard event (`keydown` or `keyup`).
+     */
+    private onSwitcherKey(ev: KeyboardEvent): void {
+        if (!this._switcher) {
+            return;
         }
-        // Get new tab to activate after removal (if `remove()` includes the active tab).
-        const newActiveTab = this.getTabToActivateAfterRemoval(tabsToRemove);
-        for (const tab of tabsToRemove) {
-            tab.Content.Parent?.remove(tab.Content);
+        if (ev.type === "keydown" && ev.key === "Tab" && ev.ctrlKey && !ev.altKey && !ev.metaKey) {
+            // Nested tab groups, only the innermost tab group switches.
+            ev.stopPropagation();
+            ev.preventDefault();
+            this.cycleSwitcher(!ev.shiftKey);
+        } else if (ev.type === "keydown" && ev.key === "Escape" && this.tabSwitcher.DOM.matches(":popover-open")) {
+            ev.preventDefault();
+            this.closeSwitcher(false);
+        } else if (ev.type === "keyup" && ev.key === "Control") {
+            this.closeSwitcher(true);
         }
-        this.tabHeadersContainer.remove(...tabsToRemove);
-        this.syncTabs();
-        this.active(newActiveTab);
-        return this;
     }
 
     /**
-     * Extracts tabs from this tab group. The extracted tabs will be pushed to the array given by
-     * `to`. If the length of `tabs` is `0` _all_ tabs of this tab group will be extracted and
-     * pushed to `to`.
-     * @param to An array to which the extracted tabs will be pushed.
-     * @param tabs The tabs to be extracted. Any element of `tabs`, that isn't a tab of this tab
-     * group, is ignored.
-     * @returns This instance.
+     * Returns the tab to be activated after removing some tabs (see `ActivationStrategy`).
+     * @param tabsToRemove The tabs to be removed. Any element of `tabsToRemove`, that isn't a tab
+     * of this tab group, is ignored. 
+     * @returns The tab that is to be activated after removing some tabs. If `undefined` is
+     * returned, the active current tab is not included in the tabs to be removed or there is no tab
+     * left that can be activated.
      */
-    public extract(to: Tab[], ...tabs: Tab[]): this {
-        if (tabs.length === 0) {
-            for (const tab of this.tabs) {
-                tab.Content.Parent?.remove(tab.Content);
-            }
-            this.tabHeadersContainer.extract(to, ...tabs);
-            this.syncTabs();
-            return this;
+    protected getTabToActivateAfterRemoval(tabsToRemove: Tab[]): Tab | undefined {
+        if (!this.activeTab || !tabsToRemove.includes(this.activeTab)) {
+            return undefined;
         }
-        const tabsToExtract = [...new Set(tabs)].filter(e => this.tabs.includes(e));
-        if (tabsToExtract.length === 0) {
-            return this;
+        if (this._activationStrategy === TabActivationStrategy.MRU) {
+            return this.mruTabs.find(e => !tabsToRemove.includes(e));
         }
-        // Get new tab to activate after extraction (if `extract()` includes the active tab).
-        const newActiveTab = this.getTabToActivateAfterRemoval(tabsToExtract);
-        for (const tab of tabsToExtract) {
-            tab.Content.Parent?.remove(tab.Content);
+        const uniques = [...new Set(tabsToRemove)].filter(e => this.tabs.includes(e));
+        if (uniques.length === 0) {
+            return undefined;
         }
-        this.tabHeadersContainer.extract(to, ...tabsToExtract);
-        this.syncTabs();
-        this.active(newActiveTab);
-        return this;
+        const sorted: { Index: number; Tab: Tab; }[] = []; // eslint-disable-line jsdoc/require-jsdoc
+        for (const tab of uniques) {
+            sorted.push({ Index: this.tabs.indexOf(tab), Tab: tab }); // eslint-disable-line jsdoc/require-jsdoc
+        }
+        let firstQualifiedIndexRightOfActiveTab = this.tabs.indexOf(this.activeTab) + 1;
+        sorted.sort((a, b) => a.Index - b.Index);
+        while (sorted.find(e => e.Index === firstQualifiedIndexRightOfActiveTab)) {
+            firstQualifiedIndexRightOfActiveTab++;
+        }
+        return firstQualifiedIndexRightOfActiveTab >= this.tabs.length
+            ? this.tabs[sorted[0].Index - 1]
+            : this.tabs[firstQualifiedIndexRightOfActiveTab];
     }
 
     /**
-     * Extracts and appends tabs from this the instance to another `TabGroup` instance. If the
-     * length of `tabs` is `0` _all_ tabs of this tab group will be extracted and appended to
-     * `target`. If `target` is this instance, an exception will be thrown.
-     * @param target The target instance to which the tabs are to be appended.
-     * @param tabs The tabs to be extracted and appended. Any element of `tabs`, that isn't a tab of
-     * this tab group, is ignored.
-     * @returns This instance.
+     * Moves a dropped tab to its new position. If the tab is moved to another tab group and it was
+     * the active tab, it will also be the active tab in the target tab group. A tab dropped onto an
+     * edge is passed to the `EdgeDropHandler` of `target`.
+     * @param tab The dropped tab (a tab of this tab group).
+     * @param target The tab group onto which the tab was dropped (may be this instance).
+     * @param index The insertion index in the tabs of `target`.
+     * @param edge The edge of the tab content of `target` onto which the tab was dropped.
      */
-    public moveTo(target: TabGroup, ...tabs: Tab[]): this {
+    protected dropTab(tab: Tab, target: TabGroup, index: number, edge?: TabDropEdge): void {
         if (target === this) {
-            throw new Error("TabGroup: 'moveTo' isn't supported inside TabGroup.");
+            const current = this.tabs.indexOf(tab);
+            // Dropping the only tab onto an edge of its own tab group wouldn't change anything.
+            if (edge === undefined ? index === current || index === current + 1 : this.tabs.length === 1) {
+                return;
+            }
         }
-        const extracted: Tab[] = [];
-        this.extract(extracted, ...tabs);
-        target.append(...extracted);
-        // this.syncTabs(); // Done in `extract()`.
-        return this;
+        if (!target.DOM.dispatchEvent(new TabDropEvent("tabdrop", target, { Tab: tab, Source: this, Target: target, Index: index, Edge: edge }))) { // eslint-disable-line jsdoc/require-jsdoc
+            return;
+        }
+        if (edge !== undefined) {
+            target._edgeDropHandler?.(tab, target, edge);
+            return;
+        }
+        const at = target.Tabs[index] ?? target.Tabs.length;
+        if (target === this) {
+            this.insert(at, tab);
+            return;
+        }
+        const wasActive = tab.Active;
+        this.moveToAt(target, at, tab);
+        wasActive || target.Tabs.length === 1
+            ? target.active(tab)
+            : undefined;
     }
 
     /**
-     * Extracts and inserts tabs from this the instance into another `TabGroup` instance. If the
-     * length of `tabs` is `0` _all_ tabs of this tab group will be extracted and inserted into
-     * `target`. If `target` is this instance, an exception will be thrown.
-     * @param target The target instance into which the tabs are to be inserted.
-     * @param at The target index in the tabs collection of `target`. If `at` is lower than `0` it
-     * is considered to be `0`. If `at` is greater or equal to `target.Tabs.length` the given tabs
-     * will be appended. If `at` is a tab in `target` the tabs will be inserted at the position of
-     * `at` in `target.Tabs`. If `at` is not a tab of `target` an exception will be thrown.
-     * @param tabs The tabs to be moved. Any element of `tabs`, that isn't a tab of this tab group,
-     * is ignored.
-     * @returns This instance.
+     * Returns the insertion index for a tab dropped at the given position (client coordinates).
+     * @param x The x coordinate of the pointer.
+     * @param y The y coordinate of the pointer.
+     * @returns The insertion index in the tabs of this tab group.
      */
-    public moveToAt(target: TabGroup, at: number | Tab, ...tabs: Tab[]): this {
-        if (target === this) {
-            throw new Error("TabGroup: 'moveToAt' isn't supported inside TabGroup.");
+    protected getDropIndex(x: number, y: number): number {
+        const index = this.tabs.findIndex(tab => {
+            const rect = tab.DOM.getBoundingClientRect();
+            switch (this._appearance) {
+                case TabGroupAppearance.TOP:
+                case TabGroupAppearance.BOTTOM:
+                    return rect.left + rect.width / 2 > x;
+                case TabGroupAppearance.RIGHT:
+                    return rect.top + rect.height / 2 > y;
+                case TabGroupAppearance.LEFT:
+                    // Reversed order of the tab headers, see CSS (`column-reverse`).
+                    return rect.top + rect.height / 2 < y;
+            }
+        });
+        return index === -1 ? this.tabs.length : index;
+    }
+
+    /**
+     * Returns the edge of the tab content onto which a tab would be dropped at the given position
+     * (client coordinates). Requires an `EdgeDropHandler`.
+     * @param x The x coordinate of the pointer.
+     * @param y The y coordinate of the pointer.
+     * @returns The edge or `undefined`, if the position isn't near an edge of the tab content.
+     */
+    protected getDropEdge(x: number, y: number): TabDropEdge | undefined {
+        if (!this._edgeDropHandler) {
+            return undefined;
         }
-        if (typeof at !== "number" && !target.Tabs.includes(at)) {
-            throw new Error("TabGroup: param 'at' for 'moveToAt' isn't a child of 'target'.");
+        const rect = this.tabContent.DOM.getBoundingClientRect();
+        if (x < rect.left || x > rect.right || y < rect.top || y > rect.bottom) {
+            return undefined;
         }
-        const extracted: Tab[] = [];
-        this.extract(extracted, ...tabs);
-        target.insert(at, ...extracted);
-        // this.syncTabs(); // Done in `extract()`.
-        return this;
+        // Relative distance from the center, -0.5 ... 0.5.
+        const dx = (x - rect.left) / rect.width - 0.5;
+        const dy = (y - rect.top) / rect.height - 0.5;
+        if (Math.abs(dx) < EDGE_DROP_CENTER / 2 && Math.abs(dy) < EDGE_DROP_CENTER / 2) {
+            return undefined;
+        }
+        return Math.abs(dx) > Math.abs(dy)
+            ? dx < 0 ? TabDropEdge.LEFT : TabDropEdge.RIGHT
+            : dy < 0 ? TabDropEdge.TOP : TabDropEdge.BOTTOM;
     }
 
     /**
-     * Updates the internal array with tab components. The reference is always the container which
-     * holds the tabs (`this.tabHeadersContainer`).
+     * Shows the drop indicator at the insertion position for the given pointer position. If `edge`
+     * is given, the half of the tab content at this edge is highlighted instead.
+     * @param x The x coordinate of the pointer.
+     * @param y The y coordinate of the pointer.
+     * @param edge The edge of the tab content onto which the tab would be dropped.
+     * @returns The insertion index in the tabs of this tab group.
      */
-    protected syncTabs(): void {
-        this.tabs = <Tab[]>this.tabHeadersContainer.Children.slice(0);
-        if (this.tabs.length === 0) {
-            this.activeTab = undefined;
+    protected showDropIndicator(x: number, y: number, edge?: TabDropEdge): number {
+        if (edge !== undefined) {
+            const uiRect = this.ui.DOM.getBoundingClientRect();
+            const contentRect = this.tabContent.DOM.getBoundingClientRect();
+            const horizontal = edge === TabDropEdge.LEFT || edge === TabDropEdge.RIGHT;
+            const style = this.dropIndicator.DOM.style;
+            style.left = (edge === TabDropEdge.RIGHT ? contentRect.left + contentRect.width / 2 : contentRect.left) - uiRect.left + "px";
+            style.top = (edge === TabDropEdge.BOTTOM ? contentRect.top + contentRect.height / 2 : contentRect.top) - uiRect.top + "px";
+            style.width = (horizontal ? contentRect.width / 2 : contentRect.width) + "px";
+            style.height = (horizontal ? contentRect.height : contentRect.height / 2) + "px";
+            this.dropIndicator.addClass("edge").DOM.hidden = false;
+            return this.tabs.length;
+        }
+        this.dropIndicator.removeClass("edge");
+        const index = this.getDropIndex(x, y);
+        const uiRect = this.ui.DOM.getBoundingClientRect();
+        const headersRect = this.tabHeadersContainer.DOM.getBoundingClientRect();
+        const refRect = (this.tabs[index] ?? this.tabs.at(-1))?.DOM.getBoundingClientRect();
+        const before = index < this.tabs.length;
+        const style = this.dropIndicator.DOM.style;
+        if (this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM) {
+            const left = refRect ? (before ? refRect.left : refRect.right) : headersRect.left;
+            style.left = left - uiRect.left + "px";
+            style.top = headersRect.top - uiRect.top + "px";
+            style.width = "";
+            style.height = headersRect.height + "px";
+        } else {
+            const reversed = this._appearance === TabGroupAppearance.LEFT;
+            const top = refRect
+                ? (before !== reversed ? refRect.top : refRect.bottom)
+                : reversed ? headersRect.bottom : headersRect.top;
+            style.left = headersRect.left - uiRect.left + "px";
+            style.top = top - uiRect.top + "px";
+            style.width = headersRect.width + "px";
+            style.height = "";
+        }
+        this.dropIndicator.DOM.hidden = false;
+        return index;
+    }
+
+    /**
+     * Hides the drop indicator.
+     */
+    protected hideDropIndicator(): void {
+        this.dropIndicator.DOM.hidden = true;
+    }
+
+    /**
+     * Returns the innermost tab group below the given position, that accepts the tab which is
+     * currently being dragged.
+     * @param x The x coordinate of the pointer.
+     * @param y The y coordinate of the pointer.
+     * @returns The tab group or `undefined`, if there is no qualified tab group.
+     */
+    private getDropTargetAt(x: number, y: number): TabGroup | undefined {
+        let element = document.elementFromPoint(x, y);
+        while (element) {
+            const tabGroup = tabGroupsByElement.get(element);
+            // A tab must not be dropped onto a tab group inside of its own content.
+            if (tabGroup?.DragAndDrop && !this.dragTab?.Content.DOM.contains(tabGroup.DOM)) {
+                return tabGroup;
+            }
+            element = element.parentElement;
+        }
+        return undefined;
+    }
+
+    /**
+     * Handling for dragging tabs. Triggered when the pointer is pressed on a tab header. Dragging
+     * starts after the pointer was moved by `DRAG_THRESHOLD` pixels, until then a tab behaves as
+     * usual (e.g. a tab is activated on `pointerup`).
+     * @param ev The pointer event.
+     */
+    private onDragPointerDown(ev: PointerEvent): void {
+        this.endDrag();
+        if (!this._dragAndDrop || ev.button !== 0 || (<Element>ev.target).closest("button, input, select, textarea")) {
+            return;
+        }
+        this.dragTab = this.tabs.find(e => e.DOM.contains(<Node>ev.target));
+        if (!this.dragTab) {
+            return;
+        }
+        this.dragStart.x = ev.clientX;
+        this.dragStart.y = ev.clientY;
+        this.tabHeadersContainer.DOM.addEventListener("pointermove", this.fncOnDragPointerMove);
+        this.tabHeadersContainer.DOM.addEventListener("pointerup", this.fncOnDragPointerUp);
+        this.tabHeadersContainer.DOM.addEventListener("pointercancel", this.fncOnDragPointerUp);
+    }
+
+    /**
+     * @see `onDragPointerDown()`.
+     * @param ev The pointer event.
+     */
+    private onDragPointerMove(ev: PointerEvent): void {
+        if (!this.dragging) {
+            if (Math.hypot(ev.clientX - this.dragStart.x, ev.clientY - this.dragStart.y) < DRAG_THRESHOLD) {
+                return;
+            }
+            this.dragging = true;
+            this.tabHeadersContainer.DOM.setPointerCapture(ev.pointerId);
+            this.dragTab?.addClass("dragging");
+            this.ui.addClass("dragging");
+        }
+        const target = this.getDropTargetAt(ev.clientX, ev.clientY);
+        const edge = target?.getDropEdge(ev.clientX, ev.clientY);
+        this.dropTarget && this.dropTarget.Group !== target
+            ? this.dropTarget.Group.hideDropIndicator()
+            : undefined;
+        this.dropTarget = target
+            ? { Group: target, Index: target.showDropIndicator(ev.clientX, ev.clientY, edge), Edge: edge } // eslint-disable-line jsdoc/require-jsdoc
+            : undefined;
+    }
+
+    /**
+     * @see `onDragPointerDown()`.
+     * @param ev The pointer event.
+     */
+    private onDragPointerUp(ev: PointerEvent): void {
+        const tab = this.dragTab;
+        const dropTarget = this.dragging && ev.type === "pointerup"
+            ? this.dropTarget
+            : undefined;
+        this.endDrag(ev.pointerId);
+        tab && dropTarget
+            ? this.dropTab(tab, dropTarget.Group, dropTarget.Index, dropTarget.Edge)
+            : undefined;
+    }
+
+    /**
+     * Ends dragging a tab (if any), resets the state of dragging and hides the drop indicator.
+     * @param pointerId The id of the pointer which was used for dragging.
+     */
+    private endDrag(pointerId?: number): void {
+        this.tabHeadersContainer.DOM.removeEventListener("pointermove", this.fncOnDragPointerMove);
+        this.tabHeadersContainer.DOM.removeEventListener("pointerup", this.fncOnDragPointerUp);
+        this.tabHeadersContainer.DOM.removeEventListener("pointercancel", this.fncOnDragPointerUp);
+        pointerId !== undefined && this.tabHeadersContainer.DOM.hasPointerCapture(pointerId)
+            ? this.tabHeadersContainer.DOM.releasePointerCapture(pointerId)
+            : undefined;
+        this.dragTab?.removeClass("dragging");
+        this.ui.removeClass("dragging");
+        this.dropTarget?.Group.hideDropIndicator();
+        this.dragTab = undefined;
+        this.dragging = false;
+        this.dropTarget = undefined;
+    }
+
+    /**
+     * Handling for swiping the tab content. Triggered when the pointer is pressed on the tab
+     * content. Swiping starts after the pointer was moved horizontally by `DRAG_THRESHOLD` pixels,
+     * a vertical movement cancels swiping (e.g. for scrolling the content).
+     * @param ev The pointer event.
+     */
+    private onSwipePointerDown(ev: PointerEvent): void {
+        this.endSwipe();
+        if (!this._swipe || !this.activeTab || ev.pointerType === "mouse" || !ev.isPrimary
+            || (<Element>ev.target).closest("input, select, textarea")
+            || scrollsHorizontally(<Element>ev.target, this.tabContent.DOM)) {
+            return;
+        }
+        this.swipeAnimation?.finish();
+        this.swipeState = { StartX: ev.clientX, StartY: ev.clientY, X: ev.clientX, Time: ev.timeStamp, Velocity: 0 }; // eslint-disable-line jsdoc/require-jsdoc
+        this.tabContent.DOM.addEventListener("pointermove", this.fncOnSwipePointerMove);
+        this.tabContent.DOM.addEventListener("pointerup", this.fncOnSwipePointerUp);
+        this.tabContent.DOM.addEventListener("pointercancel", this.fncOnSwipePointerUp);
+    }
+
+    /**
+     * @see `onSwipePointerDown()`.
+     * @param ev The pointer event.
+     */
+    private onSwipePointerMove(ev: PointerEvent): void {
+        const state = this.swipeState;
+        if (!state) {
+            return;
+        }
+        const dx = ev.clientX - state.StartX;
+        if (!this.swiping) {
+            const dy = ev.clientY - state.StartY;
+            if (Math.hypot(dx, dy) < DRAG_THRESHOLD) {
+                return;
+            }
+            if (Math.abs(dy) >= Math.abs(dx)) {
+                this.endSwipe();
+                return;
+            }
+            this.swiping = true;
+            this.tabContent.DOM.setPointerCapture(ev.pointerId);
+            this.ui.addClass("swiping");
+        }
+        state.Velocity = (ev.clientX - state.X) / Math.max(ev.timeStamp - state.Time, 1);
+        state.X = ev.clientX;
+        state.Time = ev.timeStamp;
+        // With only one tab there is nothing to swipe to, so the content just follows reluctantly.
+        this.activeTab!.Content.DOM.style.transform = `translateX(${this.tabs.length > 1 ? dx : dx / 3}px)`;
+    }
+
+    /**
+     * @see `onSwipePointerDown()`.
+     * @param ev The pointer event.
+     */
+    private onSwipePointerUp(ev: PointerEvent): void {
+        const state = this.swipeState;
+        const tab = this.activeTab;
+        const swiped = this.swiping && ev.type === "pointerup";
+        this.endSwipe(ev.pointerId);
+        if (!state || !tab || !swiped) {
+            return;
+        }
+        const dx = ev.clientX - state.StartX;
+        const width = this.tabContent.DOM.clientWidth;
+        if (this.tabs.length > 1 && (Math.abs(dx) > width * SWIPE_DISTANCE || Math.abs(state.Velocity) > SWIPE_VELOCITY)) {
+            // The content is animated by `animateSwipe()`, not by a transition.
+            this.transitionSuppressed = true;
+            dx < 0
+                ? this.next()
+                : this.previous();
+            this.transitionSuppressed = false;
+        }
+        // The new content moves in from the side the swipe came from, otherwise the content of the
+        // tab snaps back.
+        this.activeTab === tab
+            ? this.animateSwipe(tab, this.tabs.length > 1 ? dx : dx / 3)
+            : this.activeTab
+                ? this.animateSwipe(this.activeTab, dx < 0 ? dx + width : dx - width)
+                : undefined;
+    }
+
+    /**
+     * Animates the content of a tab from a horizontal offset to its regular position after
+     * swiping. The animation is skipped if the user prefers reduced motion.
+     * @param tab The tab.
+     * @param offset The horizontal offset in pixels.
+     */
+    private animateSwipe(tab: Tab, offset: number): void {
+        if (matchMedia("(prefers-reduced-motion: reduce)").matches) {
+            return;
         }
+        this.ui.addClass("swiping");
+        const animation = tab.Content.DOM.animate(
+            [{ transform: `translateX(${offset}px)` }, { transform: "none" }], // eslint-disable-line jsdoc/require-jsdoc
+            { duration: SWIPE_ANIMATION_DURATION, easing: "ease-out" } // eslint-disable-line jsdoc/require-jsdoc
+        );
+        this.swipeAnimation = animation;
+        animation.onfinish = (): void => { // eslint-disable-line jsdoc/require-jsdoc
+            this.swipeAnimation === animation
+                ? this.swipeAnimation = undefined
+                : undefined;
+            this.swiping
+                ? undefined
+                : this.ui.removeClass("swiping");
+        };
     }
 
     /**
-     * Returns the tab to be activated after removing some tabs.
-     * @param tabsToRemove The tabs to be removed. Any element of `tabsToRemove`, that isn't a tab
-     * of this tab group, is ignored. 
-     * @returns The tab that is to be activated after removing some tabs. If `undefined` is
-     * returned, the active current tab is not included in the tabs to be removed or there is no tab
-     * left that can be activated.
+     * Ends swiping the tab content (if any) and resets the position of the content.
+     * @param pointerId The id of the pointer which was used for swiping.
      */
-    protected getTabToActivateAfterRemoval(tabsToRemove: Tab[]): Tab | undefined {
-        if (!this.activeTab || !tabsToRemove.includes(this.activeTab)) {
-            return undefined;
-        }
-        const uniques = [...new Set(tabsToRemove)].filter(e => this.tabs.includes(e));
-        if (uniques.length === 0) {
-            return undefined;
-        }
-        const sorted: { Index: number; Tab: Tab; }[] = []; // eslint-disable-line jsdoc/require-jsdoc
-        for (const tab of uniques) {
-            sorted.push({ Index: this.tabs.indexOf(tab), Tab: tab }); // eslint-disable-line jsdoc/require-jsdoc
+    private endSwipe(pointerId?: number): void {
+        this.tabContent.DOM.removeEventListener("pointermove", this.fncOnSwipePointerMove);
+        this.tabContent.DOM.removeEventListener("pointerup", this.fncOnSwipePointerUp);
+        this.tabContent.DOM.removeEventListener("pointercancel", this.fncOnSwipePointerUp);
+        pointerId !== undefined && this.tabContent.DOM.hasPointerCapture(pointerId)
+            ? this.tabContent.DOM.releasePointerCapture(pointerId)
+            : undefined;
+        this.tabs.forEach(tab => tab.Content.DOM.style.transform = "");
+        this.swipeAnimation
+            ? undefined
+            : this.ui.removeClass("swiping");
+        this.swipeState = undefined;
+        this.swiping = false;
+    }
+
+    /**
+     * Handles keyboard navigation inside the tab headers container (WAI-ARIA tabs pattern with
+     * automatic activation). Only key presses on a tab header itself are handled, so interactive
+     * components inside of a tab header keep their regular keyboard behavior.
+     * - `ArrowLeft`/`ArrowRight` (`TOP`/`BOTTOM`) or `ArrowUp`/`ArrowDown` (`LEFT`/`RIGHT`) activate
+     *   the previous/next tab in the visual order of the tab headers.
+     * - `Home`/`End` activate the first/last tab.
+     * - `Delete` requests closing the active tab (see `requestCloseTab()`).
+     * @param ev The keyboard event.
+     */
+    protected onHeadersKeyDown(ev: KeyboardEvent): void {
+        if (ev.altKey || ev.ctrlKey || ev.metaKey || !this.tabs.some(e => e.DOM === ev.target)) {
+            return;
         }
-        let firstQualifiedIndexRightOfActiveTab = this.tabs.indexOf(this.activeTab) + 1;
-        sorted.sort((a, b) => a.Index - b.Index);
-        while (sorted.find(e => e.Index === firstQualifiedIndexRightOfActiveTab)) {
-            firstQualifiedIndexRightOfActiveTab++;
+        // The tab headers are in reversed order with `LEFT` (see CSS, `column-reverse`), so visually
+        // 'up' means 'next'.
+        const [previousKey, nextKey] = this._appearance === TabGroupAppearance.TOP || this._appearance === TabGroupAppearance.BOTTOM
+            ? ["ArrowLeft", "ArrowRight"]
+            : this._appearance === TabGroupAppearance.LEFT
+                ? ["ArrowDown", "ArrowUp"]
+                : ["ArrowUp", "ArrowDown"];
+        switch (ev.key) {
+            case previousKey:
+                this.previous();
+                break;
+            case nextKey:
+                this.next();
+                break;
+            case "Home":
+                this.first();
+                break;
+            case "End":
+                this.last();
+                break;
+            case "Delete":
+                this.activeTab
+                    ? this.requestCloseTab(this.activeTab)
+                    : undefined;
+                break;
+            default:
+                return;
         }
-        return firstQualifiedIndexRightOfActiveTab >= this.tabs.length
-            ? this.tabs[sorted[0].Index - 1]
-            : this.tabs[firstQualifiedIndexRightOfActiveTab];
+        ev.preventDefault();
+        this.activeTab?.DOM.focus();
     }
 
     /**
@@ -515,13 +2531,73 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
      * @returns This instance
      */
     protected buildUI(): this {
+        // The buttons and the list of tabs for the overflow mode are always part of the UI, they are
+        // hidden by CSS if the overflow mode isn't active.
         this.ui = new TabGroupUI(this)
             .append(
+                this.scrollBackwardBtn = new Button("")
+                    .addClass("scroll-backward")
+                    .attrib("tabindex", "-1")
+                    .on("click", () => this.scrollHeaders(false)),
+                // The options are created by `syncCollapsed()`.
+                this.tabSelect = this.createTabSelect([]),
                 this.tabHeadersContainer = new Div()
-                    .addClass("tab-headers"),
+                    .addClass("tab-headers")
+                    .attrib("role", "tablist")
+                    .on("keydown", (ev) => this.onHeadersKeyDown(ev)),
+                this.scrollForwardBtn = new Button("")
+                    .addClass("scroll-forward")
+                    .attrib("tabindex", "-1")
+                    .on("click", () => this.scrollHeaders(true)),
+                this.overflowMenuBtn = new Button("")
+                    .addClass("overflow-menu-button")
+                    .attrib("aria-haspopup", "menu"),
                 this.tabContent = new Div()
-                    .addClass("tab-content")
-            );
+                    .addClass("tab-content"),
+                this.overflowMenu = new Div()
+                    .addClass("overflow-menu")
+                    .attrib("role", "menu")
+                    .attrib("popover", "auto")
+                    .on("beforetoggle", (ev) => this.onOverflowMenuToggle(<ToggleEvent>ev))
+                    .on("toggle", (ev) => this.onOverflowMenuToggle(<ToggleEvent>ev)),
+                this.tabContextMenu = new Div()
+                    .addClass("tab-context-menu")
+                    .attrib("role", "menu")
+                    .attrib("popover", "auto")
+                    .on("toggle", () => this.clearClosedPopover(this.tabContextMenu)),
+                this.tabSwitcher = new Div()
+                    .addClass("tab-switcher")
+                    .attrib("role", "listbox")
+                    .attrib("popover", "auto")
+                    .on("toggle", () => this.clearClosedPopover(this.tabSwitcher)),
+                // Indicator for the insertion position while dragging tabs.
+                this.dropIndicator = new Div()
+                    .addClass("drop-indicator")
+                    .attrib("hidden", "")
+            )
+            .on("keydown", (ev) => this.onSwitcherKey(ev))
+            .on("keyup", (ev) => this.onSwitcherKey(ev));
+        // The DOM of the add tab button is attached to the tab headers container directly, so the
+        // button isn't part of the children (tabs) of the container. It is displayed after the last
+        // tab by CSS (`order`), regardless of its position in the DOM.
+        this.addTabBtn = new Button("")
+            .addClass("add-tab")
+            .on("click", () => this._dom.dispatchEvent(new AddTabEvent("addtab", this, { Index: this.tabs.length }))); // eslint-disable-line jsdoc/require-jsdoc
+        this.overflowMenuBtn.DOM.popoverTargetElement = this.overflowMenu.DOM;
+        this.responsiveObserver = new ResizeObserver(() => this.syncResponsive());
+        this.overflowResizeObserver = new ResizeObserver(() => this.syncOverflow());
+        tabGroupsByElement.set(this.ui.DOM, this);
+        this.tabHeadersContainer.DOM.addEventListener("pointerdown", this.fncOnDragPointerDown);
+        this.tabContent.DOM.addEventListener("pointerdown", (ev) => this.onSwipePointerDown(ev));
+        this.tabHeadersContainer.DOM.addEventListener("pointerdown", (ev) => this.onLongPressPointerDown(ev));
+        this.tabHeadersContainer.DOM.addEventListener("contextmenu", (ev) => this.onHeadersContextMenu(ev));
+        // The dropdown selector shows the titles of the tabs, a renamed tab changes its header after
+        // the (cancelable) `rename` event.
+        this.tabHeadersContainer.DOM.addEventListener("rename", () => queueMicrotask(() => {
+            this.collapsed
+                ? this.syncCollapsed()
+                : undefined;
+        }));
         return this;
     }
 
@@ -539,6 +2615,10 @@ export class TabGroup<EventMap extends TabGroupEventMap = TabGroupEventMap> exte
         for (const tab of tabs) {
             tab.dispose();
         }
+        this.responsiveObserver.disconnect();
+        this.overflowResizeObserver.disconnect();
+        // The add tab button isn't a child of the tab headers container (see `buildUI()`).
+        this.addTabBtn.dispose();
         super.clear();
         return this;
     }
@@ -576,17 +2656,214 @@ export type TabCloseLabels = {
      * Title (tooltip) for the standard tab close button.
      */
     Title: string;
+    /**
+     * Caption for the standard tab close button if the tab is dirty (see `Tab.Dirty`), default is
+     * '●'.
+     */
+    DirtyCaption?: string;
+    /**
+     * Title (tooltip) for the standard tab close button if the tab is dirty (see `Tab.Dirty`),
+     * default is `Title`.
+     */
+    DirtyTitle?: string;
+};
+
+/**
+ * A function which returns the title of a tab, used as the initial text for renaming a tab with a
+ * component header (see `Tab.editable()`).
+ */
+export type TabTitleExtractor = (tab: Tab) => string;
+
+/**
+ * Custom 'rename' event for tabs.
+ */
+export class TabRenameEvent<D extends object = {
+    /** The tab which is renamed. */
+    Tab: Tab;
+    /** The title before renaming. */
+    OldTitle: string;
+    /** The title entered by the user. */
+    NewTitle: string;
+}> extends ACustomComponentEvent<"rename", Tab, D> { }
+
+/**
+ * Additional event(s) for `Tab`.
+ */
+export interface TabEventMap extends HTMLElementEventMap {
+    /**
+     * The user renamed the tab (see `Tab.Editable`). Event handlers can prevent renaming by calling
+     * `preventDefault()`. Tabs with a component header aren't changed, handlers must apply the new
+     * title themselves.
+     */
+    "rename": TabRenameEvent;
+}
+
+/**
+ * Describes how a tab is persisted in snapshots of a tab group (see `TabGroup.snapshot()`).
+ */
+export type TabPersistence = {
+    /**
+     * The type of the tab, used to look up the function for creating the tab in a `TabRegistry`.
+     */
+    Type: string;
+    /**
+     * A stable key, that identifies the tab (unique across all tab groups of a layout).
+     */
+    Key: string;
+    /**
+     * An optional function, that returns app-specific JSON-serializable state of the tab.
+     */
+    State?: () => unknown;
 };
 
+/**
+ * Counter for generating unique ids for tab headers and tab panels (`aria-controls`,
+ * `aria-labelledby`).
+ */
+let tabIdCounter = 0;
+
+/**
+ * Interface for components in the content of a tab, that want to be notified about the state of
+ * the tab. `TabGroup` calls the functions on every component in the content of a tab (including
+ * nested components), that implements at least one of them. Components in the internal UI of other
+ * components must be registered with `TabGroup.registerTabAware()`. In contrast to
+ * `onDidMount()`/`onDidUnmount()` these functions are only called for the activation/deactivation
+ * and closing of the tab (e.g. for pausing rendering of an inactive chart).
+ */
+export interface ITabAware {
+    /**
+     * Called after the tab was activated.
+     * @param tab The tab.
+     */
+    onTabActivated?(tab: Tab): void;
+    /**
+     * Called after the tab was deactivated.
+     * @param tab The tab.
+     */
+    onTabDeactivated?(tab: Tab): void;
+    /**
+     * Called if the tab is about to be closed by `TabGroup.requestCloseTab()`.
+     * @param tab The tab.
+     * @returns `false` (or a promise which resolves to `false`) to prevent closing the tab, e.g.
+     * for a form with unsaved changes. Anything else allows closing the tab.
+     */
+    onTabClosing?(tab: Tab): boolean | void | Promise<boolean>;
+}
+
+/**
+ * Checks whether an element or one of its ancestors (up to, but excluding `boundary`) can be
+ * scrolled horizontally.
+ * @param element The element.
+ * @param boundary The element at which the check stops.
+ * @returns `true`, if a horizontally scrollable element was found, otherwise `false`.
+ */
+function scrollsHorizontally(element: Element, boundary: Element): boolean {
+    for (let e: Element | null = element; e && e !== boundary; e = e.parentElement) {
+        const overflowX = getComputedStyle(e).overflowX;
+        if (e.scrollWidth > e.clientWidth && overflowX !== "visible" && overflowX !== "clip") {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks whether a component implements `ITabAware`.
+ * @param component The component.
+ * @returns `true`, if at least one function of `ITabAware` is implemented, otherwise `false`.
+ */
+function isTabAware(component: unknown): component is ITabAware {
+    const tabAware = <ITabAware>component;
+    return typeof tabAware.onTabActivated === "function"
+        || typeof tabAware.onTabDeactivated === "function"
+        || typeof tabAware.onTabClosing === "function";
+}
+
+/**
+ * Returns all components in the content of a tab (including nested components), that implement
+ * `ITabAware`. Components reachable through the (public) children of the content are registered
+ * first, then the DOM of the content is searched for registered components, so components in the
+ * internal UI of other components are also found (see `TabGroup.registerTabAware()`).
+ * @param tab The tab.
+ * @returns The components in document order.
+ */
+function getTabAwareComponents(tab: Tab): ITabAware[] {
+    const register = (component: INodeComponent<Node>): void => { // eslint-disable-line jsdoc/require-jsdoc
+        isTabAware(component)
+            ? TabGroup.registerTabAware(component)
+            : undefined;
+        const children = (<{ Children?: unknown; }>component).Children; // eslint-disable-line jsdoc/require-jsdoc
+        Array.isArray(children)
+            ? (<INodeComponent<Node>[]>children).forEach(register)
+            : undefined;
+    };
+    tab.Content.Children.forEach(register);
+    const components: ITabAware[] = [];
+    for (const element of tab.Content.DOM.querySelectorAll("*")) {
+        const component = tabAwareByElement.get(element);
+        component
+            ? components.push(component)
+            : undefined;
+    }
+    return components;
+}
+
+/**
+ * Custom 'tabcontent' event, dispatched on every direct child of the content of a tab, if the tab
+ * is activated/deactivated in keep-alive mode (see `TabGroup.KeepAlive`). The event is dispatched on
+ * the DOM of the children, so it can be handled with `child.on("tabcontent", ...)`. Since the event
+ * may bubble up from nested tab groups, handlers should check `Tab`.
+ */
+export class TabContentEvent<D extends object = {
+    /** The tab, whose content is shown/hidden. */
+    Tab: Tab;
+    /** `true`, if the content is shown, `false`, if the content is hidden. */
+    Active: boolean;
+}> extends ACustomComponentEvent<"tabcontent", Tab, D> { }
+
 /**
  * A tab group switches the content of a tab by removing/adding the content of the inner content
  * container. This makes it difficult to impossible for the content of a tab to track when it is
  * unmounted/mounted (for example to store/restore its scroll position). This class passes the
  * respective events forward to all of its children (the actual content of the tab).\
+ * In keep-alive mode (see `TabGroup.KeepAlive`) the container stays mounted while the tab is
+ * inactive, so the children are notified by `tabcontent` events instead.\
  * __Note:__ The `parent` given to `onBeforeMount()` and `onDidMount()` is not the Tab instance
  * itself but the inner content container!
  */
 class TabContentContainer extends Div {
+    protected tab: Tab;
+    protected visible = true;
+
+    /**
+     * Creates a new content container for a tab.
+     * @param tab The tab which uses this container for its content.
+     */
+    constructor(tab: Tab) {
+        super();
+        this.tab = tab;
+    }
+
+    /**
+     * Shows/hides the container (keep-alive mode). A hidden container is also inert.
+     * @param visible `true`, if the container is to be shown, otherwise `false`.
+     * @param notify If `true` (default), a `tabcontent` event is dispatched on every child, if the
+     * visibility changes.
+     */
+    public show(visible: boolean, notify: boolean = true): void {
+        if (visible === this.visible) {
+            return;
+        }
+        this.visible = visible;
+        this._dom.hidden = !visible;
+        this._dom.inert = !visible;
+        if (notify) {
+            for (const child of this._children) {
+                child.DOM.dispatchEvent(new TabContentEvent("tabcontent", this.tab, { Tab: this.tab, Active: visible })); // eslint-disable-line jsdoc/require-jsdoc
+            }
+        }
+    }
+
     /** @inheritdoc */
     override onBeforeUnmount(): void {
         super.onBeforeUnmount();
@@ -609,12 +2886,21 @@ class TabContentContainer extends Div {
     }
 }
 
+/**
+ * Returns the content container of a tab.
+ * @param tab The tab.
+ * @returns The content container or `undefined`, if it isn't a `TabContentContainer`.
+ */
+function contentContainerOf(tab: Tab): TabContentContainer | undefined {
+    return tab.Content instanceof TabContentContainer ? tab.Content : undefined;
+}
+
 /**
  * A tab for a TabGroup. This is a UI component that consists of a tab header (this component) and a
  * separate non-mounted tab content container which both will be used, mounted and handled by
  * `TabGroup`.
  */
-export class Tab extends AElementComponentWithInternalUI<Div> {
+export class Tab<EventMap extends TabEventMap = TabEventMap> extends AElementComponentWithInternalUI<Div, EventMap> {
     private cpHeader?: INodeComponent<Node>[] | string;
     private cpContent?: INodeComponent<Node>[] | string;
     private cpCloseBtn: boolean;
@@ -627,6 +2913,18 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
     protected contentContainer: IElementWithChildrenComponent<HTMLDivElement>;
     protected tabGroup?: TabGroup;
     protected active = false;
+    protected _persistence?: TabPersistence;
+    protected _pinned = false;
+    protected _dirty = false;
+    protected closeBtnHovered = false;
+    protected badgeSpan: Span;
+    protected _badge?: string;
+    // Inline renaming.
+    protected _editable = false;
+    protected titleExtractor?: TabTitleExtractor;
+    protected stringHeader = false;
+    protected renameInput?: TextInput;
+    private renameTitle = "";
     protected tabEventFnc = this.tabEvent.bind(this);
 
     /**
@@ -660,8 +2958,14 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
         // functions `clear()` and `dispose()`.
         // The close button is also a component that is only mounted/umounted on demand, so it has
         // to be handled separately in `clear()` and `dispose()`.
+        const id = `vts-tab-${++tabIdCounter}`;
         this.ui = new Div()
             .addClass("header-container")
+            .attrib("id", id)
+            .attrib("role", "tab")
+            .attrib("aria-selected", "false")
+            .attrib("aria-controls", `${id}-panel`)
+            .attrib("tabindex", "-1")
             .append(
                 this.headerContent = new Div()
                     .addClass("header-content")
@@ -670,14 +2974,42 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
                 if (ev.target !== this.closeBtn.DOM) {
                     this.tabGroup?.requestActivateTab(this);
                 }
+            })
+            .on("dblclick", (ev) => {
+                this._editable && !this.closeBtn.DOM.contains(<Node>ev.target)
+                    ? this.beginRename()
+                    : undefined;
+            })
+            .on("keydown", (ev) => {
+                if (ev.key === "F2" && ev.target === this._dom && this._editable) {
+                    ev.preventDefault();
+                    this.beginRename();
+                }
             });
+        // Not part of the tab sequence, closing by keyboard is done with `Delete` (see `TabGroup`).
         this.closeBtn = new Button()
             .addClass("close")
-            .on("click", () => this.tabGroup?.requestCloseTab(this));
+            .attrib("tabindex", "-1")
+            .on("click", () => this.tabGroup?.requestCloseTab(this))
+            // The caption of a dirty tab is switched back to the close caption while hovered.
+            .on("mouseenter", () => {
+                this.closeBtnHovered = true;
+                this.syncCloseButton();
+            })
+            .on("mouseleave", () => {
+                this.closeBtnHovered = false;
+                this.syncCloseButton();
+            });
+        // Also only mounted on demand (see `badge()`).
+        this.badgeSpan = new Span()
+            .addClass("badge");
         this.labels(this.cpLabels);
         this.closeButton(this.cpCloseBtn);
-        this.contentContainer = new TabContentContainer()
-            .addClass("content-container");
+        this.contentContainer = new TabContentContainer(this)
+            .addClass("content-container")
+            .attrib("id", `${id}-panel`)
+            .attrib("role", "tabpanel")
+            .attrib("aria-labelledby", id);
         this.cpHeader !== undefined ? this.header(this.cpHeader) : undefined;
         this.cpContent !== undefined ? this.content(this.cpContent) : undefined;
         return this;
@@ -736,6 +3068,227 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
         return this;
     }
 
+    /**
+     * Get/set the pinned state of this tab. Pinned tabs are always in front of unpinned tabs, they
+     * are displayed compact (see CSS) and they can't be closed by `TabGroup.requestCloseTab()`.
+     */
+    public get Pinned(): boolean {
+        return this._pinned;
+    }
+    /** @inheritdoc */
+    public set Pinned(v: boolean) {
+        this.pinned(v);
+    }
+
+    /**
+     * Pins/unpins this tab.
+     * @param pinned `true`, if the tab is to be pinned, otherwise `false`.
+     * @returns This instance.
+     */
+    public pinned(pinned: boolean): this {
+        if (pinned !== this._pinned) {
+            this._pinned = pinned;
+            this._pinned
+                ? this.ui.addClass("pinned")
+                : this.ui.removeClass("pinned");
+            this.tabGroup?.arrangePinnedTabs();
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the dirty (modified) state of this tab. A dirty tab is marked in its header (the
+     * standard close button shows `DirtyCaption`/`DirtyTitle` of the labels, `Caption` while it is
+     * hovered) and closing it by
+     * `TabGroup.requestCloseTab()` must be confirmed (see `TabGroup.CloseConfirmer`).
+     */
+    public get Dirty(): boolean {
+        return this._dirty;
+    }
+    /** @inheritdoc */
+    public set Dirty(v: boolean) {
+        this.dirty(v);
+    }
+
+    /**
+     * Sets the dirty (modified) state of this tab.
+     * @param dirty `true`, if the tab is dirty, otherwise `false`.
+     * @returns This instance.
+     */
+    public dirty(dirty: boolean): this {
+        if (dirty !== this._dirty) {
+            this._dirty = dirty;
+            this._dirty
+                ? this.ui.addClass("dirty")
+                : this.ui.removeClass("dirty");
+            this.syncCloseButton();
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the badge of this tab, a short text (e.g. a count) displayed next to the header
+     * content. `undefined` if the tab has no badge.
+     */
+    public get Badge(): string | undefined {
+        return this._badge;
+    }
+    /** @inheritdoc */
+    public set Badge(v: string | undefined) {
+        this.badge(v);
+    }
+
+    /**
+     * Sets the badge of this tab.
+     * @param badge The text of the badge (a number is converted to a string). If `badge` is
+     * `undefined` or an empty string, the badge is removed.
+     * @returns This instance.
+     */
+    public badge(badge?: string | number): this {
+        const text = badge === undefined || badge === "" ? undefined : String(badge);
+        if (text !== this._badge) {
+            text === undefined
+                ? this.ui.remove(this.badgeSpan)
+                : this._badge === undefined
+                    ? this.ui.insert(this.headerContent, this.badgeSpan)
+                    : undefined;
+            this._badge = text;
+            this.badgeSpan.text(text ?? "");
+        }
+        return this;
+    }
+
+    /**
+     * Get/set whether this tab can be renamed by the user. Renaming starts with a double click on
+     * the tab header or `F2` if the tab header has the focus, the header content is replaced by a
+     * text field. `Enter` (or leaving the text field) commits, `Escape` cancels renaming.
+     */
+    public get Editable(): boolean {
+        return this._editable;
+    }
+    /** @inheritdoc */
+    public set Editable(v: boolean) {
+        this.editable(v);
+    }
+
+    /**
+     * Enables/disables renaming of this tab by the user. A committed new title is passed to the
+     * handlers of the `rename` event, if they don't prevent renaming, a string header is replaced by
+     * the new title. Tabs with a component header aren't changed, handlers of the `rename` event must
+     * apply the new title to the header components.
+     * @param editable `true`, if the tab can be renamed, otherwise `false`.
+     * @param extractor An optional function which returns the current title (initial text of the
+     * text field). Without extractor, the text content of the header is used.
+     * @returns This instance.
+     */
+    public editable(editable: boolean, extractor?: TabTitleExtractor): this {
+        this._editable = editable;
+        this.titleExtractor = extractor;
+        this._editable
+            ? undefined
+            : this.endRename(false);
+        return this;
+    }
+
+    /**
+     * Get the title of this tab (see `editable()`).
+     */
+    public get Title(): string {
+        return this.titleExtractor
+            ? this.titleExtractor(this)
+            : this.headerContent.DOM.textContent ?? "";
+    }
+
+    /**
+     * `true`, if the tab is currently renamed by the user, otherwise `false`.
+     */
+    public get Renaming(): boolean {
+        return this.renameInput !== undefined;
+    }
+
+    /**
+     * Starts renaming this tab (e.g. from a context menu), the header content is replaced by a text
+     * field with the current title. Does nothing if the tab isn't editable.
+     * @returns This instance.
+     */
+    public beginRename(): this {
+        if (!this._editable || this.renameInput) {
+            return this;
+        }
+        this.renameTitle = this.Title;
+        this.renameInput = new TextInput(undefined, this.renameTitle)
+            .addClass("rename")
+            .on("keydown", (ev) => {
+                if (ev.key === "Enter" || ev.key === "Escape") {
+                    ev.preventDefault();
+                    ev.stopPropagation();
+                    this.endRename(ev.key === "Enter");
+                }
+            })
+            .on("blur", () => this.endRename(true));
+        this.ui.addClass("renaming");
+        this.headerContent.append(this.renameInput);
+        this.renameInput.DOM.focus();
+        this.renameInput.DOM.select();
+        return this;
+    }
+
+    /**
+     * Ends renaming this tab (if the tab is currently renamed) and restores the header content.
+     * @param commit If `true`, the entered title is committed (a `rename` event is dispatched, if
+     * the title isn't empty and has changed), otherwise renaming is canceled.
+     * @returns This instance.
+     */
+    public endRename(commit: boolean): this {
+        const input = this.renameInput;
+        if (!input) {
+            return this;
+        }
+        this.renameInput = undefined;
+        const refocus = document.activeElement === input.DOM;
+        const title = input.Value.trim();
+        this.headerContent.remove(input);
+        input.dispose();
+        this.ui.removeClass("renaming");
+        refocus
+            ? this._dom.focus()
+            : undefined;
+        if (!commit
+            || title === ""
+            || title === this.renameTitle
+            || !this._dom.dispatchEvent(new TabRenameEvent("rename", this, { Tab: this, OldTitle: this.renameTitle, NewTitle: title })) // eslint-disable-line jsdoc/require-jsdoc
+        ) {
+            return this;
+        }
+        this.stringHeader
+            ? this.header(title)
+            : undefined;
+        return this;
+    }
+
+    /**
+     * Get/set how this tab is persisted in snapshots of a tab group. Tabs without persistence
+     * aren't included in snapshots. Returns a _copy_ of the current persistence!
+     */
+    public get Persistence(): TabPersistence | undefined {
+        return this._persistence ? { ...this._persistence } : undefined;
+    }
+    /** @inheritdoc */
+    public set Persistence(v: TabPersistence | undefined) {
+        this.persistence(v);
+    }
+
+    /**
+     * Sets how this tab is persisted in snapshots of a tab group. No reference to the given
+     * persistence object is held!
+     * @param persistence The persistence or `undefined`, if the tab isn't to be persisted.
+     * @returns This instance.
+     */
+    public persistence(persistence?: TabPersistence): this {
+        this._persistence = persistence ? { ...persistence } : undefined;
+        return this;
+    }
+
     /**
      * Get the caption/title for the standard tab close button. Returns a _copy_ of the current
      * caption/title!
@@ -758,15 +3311,27 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
         this._labels = {
             /* eslint-disable jsdoc/require-jsdoc */
             Caption: labels.Caption ?? "x",
-            Title: labels.Title ?? ""
+            Title: labels.Title ?? "",
+            DirtyCaption: labels.DirtyCaption ?? "●",
+            DirtyTitle: labels.DirtyTitle ?? labels.Title ?? ""
             /* eslint-enable */
         };
-        this.closeBtn
-            .text(this._labels.Caption)
-            .title(this._labels.Title);
+        this.syncCloseButton();
         return this;
     }
 
+    /**
+     * Updates the caption/title of the standard tab close button according to the dirty state and
+     * the hover state of the button.
+     */
+    protected syncCloseButton(): void {
+        this._dirty
+            ? this.closeBtn
+                .text(this.closeBtnHovered ? this._labels.Caption : this._labels.DirtyCaption ?? "●")
+                .title(this._labels.DirtyTitle ?? "")
+            : this.closeBtn.text(this._labels.Caption).title(this._labels.Title);
+    }
+
     /**
      * Get the container component, that holds the header content (excluding the close button).
      */
@@ -809,6 +3374,10 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
     /* eslint-disable-next-line jsdoc/require-jsdoc */
     protected swapChildren(ofHeader: boolean, content: INodeComponent<Node>[] | string, extractTo?: INodeComponent<Node>[]): this {
         const targetContainer = ofHeader ? this.headerContent : this.contentContainer;
+        if (ofHeader) {
+            this.endRename(false);
+            this.stringHeader = typeof content === "string";
+        }
         extractTo
             ? targetContainer.extract(extractTo)
             : targetContainer.clear();
@@ -827,13 +3396,35 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
      */
     protected tabEvent(ev: TabEvent): void {
         if (ev.detail.Tab == this) {
-            this.active = ev.detail.Active;
-            this.active
-                ? this.ui.addClass("active")
-                : this.ui.removeClass("active");
+            this.activeState(ev.detail.Active);
         }
     }
 
+    /**
+     * Sets the active state of this tab and updates the tab header accordingly.
+     * @param active `true`, if the tab is active, otherwise `false`.
+     */
+    protected activeState(active: boolean): void {
+        this.active = active;
+        this.headerState(this.active);
+    }
+
+    /**
+     * Updates the tab header (CSS class, ARIA state, tab sequence) according to an active state,
+     * without changing the active state of the tab itself. Used by `TabGroup` during an animated
+     * transition (see `TabGroup.Transition`), until the `tab` events are dispatched.
+     * @param active `true`, if the header is displayed as active, otherwise `false`.
+     */
+    public headerState(active: boolean): void {
+        active
+            ? this.ui.addClass("active")
+            : this.ui.removeClass("active");
+        // Roving tabindex, only the active tab is part of the tab sequence.
+        this.ui
+            .attrib("aria-selected", active ? "true" : "false")
+            .attrib("tabindex", active ? "0" : "-1");
+    }
+
     /** @inheritdoc */
     public override onDidMount(parent: IElementWithChildrenComponent<HTMLElementWithChildren>): void {
         super.onDidMount(parent);
@@ -842,6 +3433,9 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
             : undefined;
         // From now on handle 'tab' events.
         this.tabGroup?.on("tab", this.tabEventFnc);
+        // Moving a tab inside of its tab group (e.g. by `insert()`) unmounts/mounts the tab, so the
+        // active state has to be restored.
+        this.activeState(this.tabGroup?.Active === this);
     }
 
     /** @inheritdoc */
@@ -850,7 +3444,7 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
         // Stop handling 'tab' events.
         this.tabGroup?.off("tab", this.tabEventFnc);
         this.tabGroup = undefined;
-        this.active = false;
+        this.activeState(false);
     }
 
     /**
@@ -859,9 +3453,13 @@ export class Tab extends AElementComponentWithInternalUI<Div> {
      * @returns This instance.
      */
     public override clear(): this {
+        this.endRename(false);
         this._closeBtn
             ? undefined                 // Child of `this.ui`, so handled by `super.clear()`.
             : this.closeBtn.dispose();  // Manual disposal necessary.
+        this._badge !== undefined
+            ? undefined
+            : this.badgeSpan.dispose();
         // Manual disposal necessary since the container can be outside the regular component tree
         // if the tab isn't active.
         this.contentContainer.clear();
@@ -896,3 +3494,85 @@ export class TabFactory<T> extends ComponentFactory<Tab> {
 }
 // #endregion
 /////////////////////////////
+
+
+/////////////////////////////
+// #region Persistence
+/**
+ * Snapshot of a tab (JSON-serializable).
+ */
+export type TabSnapshot = {
+    /** The type of the tab (see `TabPersistence`). */
+    Type: string;
+    /** The stable key of the tab (see `TabPersistence`). */
+    Key: string;
+    /** App-specific state of the tab (see `TabPersistence`). */
+    State?: unknown;
+    /** `true`, if the tab is pinned. */
+    Pinned?: boolean;
+};
+
+/**
+ * Snapshot of a tab group (JSON-serializable).
+ */
+export type TabGroupSnapshot = {
+    /** The snapshots of the tabs, in the order of the tab group. */
+    Tabs: TabSnapshot[];
+    /** The key of the active tab. */
+    Active?: string;
+};
+
+/**
+ * A function, that creates a tab when a snapshot is restored.
+ * @param key The stable key of the tab.
+ * @param state The app-specific state of the tab (if any).
+ * @returns The new tab or `undefined`, if the tab can't be created.
+ */
+export type TabRestoreFunction = (key: string, state: unknown) => Tab | undefined;
+
+/**
+ * Registry of functions, which create tabs by type when snapshots are restored.
+ */
+export class TabRegistry {
+    protected restoreFunctions = new Map<string, TabRestoreFunction>();
+
+    /**
+     * Registers a function for creating tabs of a type. A function, which was registered for the
+     * same type before, is replaced.
+     * @param type The type of the tabs (see `TabPersistence`).
+     * @param restoreFunction The function for creating tabs of this type.
+     * @returns This instance.
+     */
+    public register(type: string, restoreFunction: TabRestoreFunction): this {
+        this.restoreFunctions.set(type, restoreFunction);
+        return this;
+    }
+
+    /**
+     * Unregisters the function for creating tabs of a type.
+     * @param type The type of the tabs.
+     * @returns This instance.
+     */
+    public unregister(type: string): this {
+        this.restoreFunctions.delete(type);
+        return this;
+    }
+
+    /**
+     * Creates a tab from a snapshot. If the created tab has no persistence with the key of the
+     * snapshot, the type and the key of the snapshot are assigned to the tab.
+     * @param snapshot The snapshot of the tab.
+     * @returns The new tab or `undefined`, if no function is registered for the type or the
+     * function didn't create a tab.
+     */
+    public create(snapshot: TabSnapshot): Tab | undefined {
+        const tab = this.restoreFunctions.get(snapshot.Type)?.(snapshot.Key, snapshot.State);
+        const persistence = tab?.Persistence;
+        tab && persistence?.Key !== snapshot.Key
+            ? tab.persistence({ Type: snapshot.Type, Key: snapshot.Key, State: persistence?.State }) // eslint-disable-line jsdoc/require-jsdoc
+            : undefined;
+        return tab;
+    }
+}
+// #endregion
+/////////////////////////////
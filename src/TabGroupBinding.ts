@@ -0,0 +1,191 @@
+import { Tab, TabGroup, TabsRemovedEvent } from "./TabGroup.js";
+
+
+/**
+ * A function which returns the key of an item. Keys must be unique within the items of a binding.
+ */
+export type TabItemKey<T> = (item: T) => string;
+
+/**
+ * A function which creates the tab for an item.
+ */
+export type TabItemRenderer<T> = (item: T, key: string) => Tab;
+
+/**
+ * A function which updates the tab of an item, if the item has changed (e.g. the header).
+ */
+export type TabItemUpdater<T> = (tab: Tab, item: T, key: string) => void;
+
+/**
+ * Binds the tabs of a tab group to an array of items (e.g. the state of a store). Every item is
+ * represented by a tab, items are identified by their key. On every `update()` the tabs are
+ * reconciled with the items:
+ * - Tabs for new items are created by the renderer and inserted.
+ * - Tabs of items, that no longer exist, are removed and disposed.
+ * - Tabs of existing items are updated by the updater (if any) and moved to the position of their
+ *   item. Tabs, that were moved to another tab group (e.g. by drag and drop), are moved back.
+ *
+ * Since tabs are reused by key, the active tab stays active as long as its item exists. Tabs,
+ * that are closed by the user, are released from the binding, the app must remove the
+ * corresponding items (otherwise a new tab is created on the next update).\
+ * __Note:__ The tab group should only contain tabs of the binding, since the position of a tab is
+ * the index of its item.
+ */
+export class TabGroupBinding<T> {
+    protected tabGroup: TabGroup;
+    protected key: TabItemKey<T>;
+    protected renderer: TabItemRenderer<T>;
+    protected updater?: TabItemUpdater<T>;
+    protected tabsByKey = new Map<string, Tab>();
+    // Tabs removed by `update()` are already released.
+    private updating = false;
+    private fncOnTabsRemoved = this.onTabsRemoved.bind(this);
+
+    /**
+     * Creates a new binding.
+     * @param tabGroup The tab group whose tabs are bound.
+     * @param key The function which returns the key of an item.
+     * @param renderer The function which creates the tab for an item.
+     * @param updater An optional function which updates the tab of an existing item.
+     */
+    constructor(tabGroup: TabGroup, key: TabItemKey<T>, renderer: TabItemRenderer<T>, updater?: TabItemUpdater<T>) {
+        this.tabGroup = tabGroup;
+        this.key = key;
+        this.renderer = renderer;
+        this.updater = updater;
+        this.tabGroup.on("tabsremoved", this.fncOnTabsRemoved);
+    }
+
+    /**
+     * Get the bound tab group.
+     */
+    public get TabGroup(): TabGroup {
+        return this.tabGroup;
+    }
+
+    /**
+     * Get the keys of all bound tabs.
+     */
+    public get Keys(): string[] {
+        return [...this.tabsByKey.keys()];
+    }
+
+    /**
+     * Get/set the key of the active tab of the tab group (`undefined` if the active tab isn't
+     * bound).
+     */
+    public get ActiveKey(): string | undefined {
+        const active = this.tabGroup.Active;
+        return active ? this.keyOf(active) : undefined;
+    }
+    /** @inheritdoc */
+    public set ActiveKey(v: string | undefined) {
+        this.activeKey(v);
+    }
+
+    /**
+     * Activates the tab with the given key.
+     * @param key The key of the tab to be activated, if there is no such tab, nothing is done.
+     * @returns This instance.
+     */
+    public activeKey(key?: string): this {
+        this.tabGroup.active(key === undefined ? undefined : this.tabsByKey.get(key));
+        return this;
+    }
+
+    /**
+     * Returns the tab of an item.
+     * @param key The key of the item.
+     * @returns The tab or `undefined`, if there is no tab for the key.
+     */
+    public tabOf(key: string): Tab | undefined {
+        return this.tabsByKey.get(key);
+    }
+
+    /**
+     * Returns the key of a tab.
+     * @param tab The tab.
+     * @returns The key or `undefined`, if the tab isn't bound.
+     */
+    public keyOf(tab: Tab): string | undefined {
+        for (const [key, boundTab] of this.tabsByKey) {
+            if (boundTab === tab) {
+                return key;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Reconciles the tabs of the tab group with the given items.
+     * @param items The items, the order of the items is the order of the tabs.
+     * @returns This instance.
+     */
+    public update(items: readonly T[]): this {
+        const keys = items.map(item => this.key(item));
+        const keySet = new Set(keys);
+        if (keySet.size !== keys.length) {
+            throw new Error("TabGroupBinding: the keys of the items aren't unique.");
+        }
+        this.updating = true;
+        try {
+            for (const [key, tab] of this.tabsByKey) {
+                if (!keySet.has(key)) {
+                    this.tabsByKey.delete(key);
+                    tab.TabGroup?.remove(tab);
+                    tab.dispose();
+                }
+            }
+            items.forEach((item, index) => {
+                const key = keys[index];
+                let tab = this.tabsByKey.get(key);
+                if (tab) {
+                    this.updater?.(tab, item, key);
+                } else {
+                    tab = this.renderer(item, key);
+                    this.tabsByKey.set(key, tab);
+                }
+                if (tab.TabGroup === this.tabGroup) {
+                    this.tabGroup.Tabs[index] !== tab
+                        ? this.tabGroup.insert(index, tab)
+                        : undefined;
+                } else if (tab.TabGroup) {
+                    tab.TabGroup.moveToAt(this.tabGroup, index, tab);
+                } else {
+                    // `append()` activates the first tab of an empty tab group.
+                    index < this.tabGroup.Tabs.length
+                        ? this.tabGroup.insert(index, tab)
+                        : this.tabGroup.append(tab);
+                }
+            });
+        } finally {
+            this.updating = false;
+        }
+        return this;
+    }
+
+    /**
+     * Releases tabs, that were removed from the tab group by other means than `update()` (e.g.
+     * closed by the user). Tabs, that are moved to another tab group, stay bound.
+     * @param ev The `tabsremoved` event.
+     */
+    private onTabsRemoved(ev: TabsRemovedEvent): void {
+        if (this.updating) {
+            return;
+        }
+        for (const tab of ev.detail.Tabs) {
+            const key = this.keyOf(tab);
+            key !== undefined
+                ? this.tabsByKey.delete(key)
+                : undefined;
+        }
+    }
+
+    /**
+     * Ends the binding. The tabs remain in the tab group.
+     */
+    public dispose(): void {
+        this.tabGroup.off("tabsremoved", this.fncOnTabsRemoved);
+        this.tabsByKey.clear();
+    }
+}
@@ -0,0 +1,966 @@
+import { ACustomComponentEvent, AElementComponentWithInternalUI, ComponentFactory, IElementWithChildrenComponent } from "@vanilla-ts/core";
+import { Div } from "@vanilla-ts/dom";
+import { ScrollContainer } from "./ScrollContainer.js";
+
+
+/**
+ * Number of rows, that are rendered above and below the visible area of a tree view.
+ */
+const OVERSCAN_ROWS = 10;
+
+/**
+ * Time in milliseconds after which the characters typed for the type-ahead search of a tree view
+ * are discarded.
+ */
+const TYPE_AHEAD_TIMEOUT = 500;
+
+/**
+ * Counter for generating unique ids for the rows of tree views (`aria-activedescendant`).
+ */
+let treeViewIdCounter = 0;
+
+/**
+ * The data of a tree view. Nodes are identified by their key, so a data provider can return new
+ * objects for the same node (e.g. after `TreeView.refresh()`).
+ */
+export type TreeDataProvider<T> = {
+    /** Returns the key of a node. Keys must be unique within the tree. */
+    key(node: T): string;
+    /** Returns the label of a node (also used for the type-ahead search). */
+    label(node: T): string;
+    /**
+     * Returns whether a node has (or may have) children. Nodes without children can't be expanded.
+     * If loading the children of a node returns no children, the node isn't expandable anymore.
+     */
+    hasChildren(node: T): boolean;
+    /**
+     * Returns the children of a node or the root nodes if `node` is `undefined`. The children can
+     * be returned synchronously or as a promise. A thrown error or a rejected promise is displayed
+     * as an error state of the node.
+     */
+    children(node?: T): T[] | Promise<T[]>;
+    /** Optionally returns additional CSS classes for the row of a node (e.g. for icons). */
+    classes?(node: T): string[];
+};
+
+/**
+ * Selection mode of a tree view.
+ */
+export enum TreeSelectionMode {
+    // One node can be selected, the selection follows the focus.
+    SINGLE = 0,
+    // Any number of nodes can be selected (Ctrl/Cmd + click, Shift + click, Space, Shift + arrow
+    // keys, Ctrl/Cmd + A).
+    MULTIPLE,
+}
+
+/**
+ * Internal state of a node of a tree view.
+ */
+type TreeItem<T> = {
+    /** The node of the data provider. */
+    Node: T;
+    /** The key of the node. */
+    Key: string;
+    /** Number for generating the id of the row. */
+    Id: number;
+    /** The level of the node (`1` for root nodes, see `aria-level`). */
+    Level: number;
+    /** The index of the node within its siblings. */
+    Index: number;
+    /** The parent, `undefined` for root nodes. */
+    Parent: TreeItem<T> | undefined;
+    /** The children, `undefined` if they haven't been loaded yet. */
+    Children: TreeItem<T>[] | undefined;
+    /** `true`, if the node can be expanded. */
+    Expandable: boolean;
+    /** `true`, if the node is expanded. */
+    Expanded: boolean;
+    /** Pending loading of the children. */
+    Loading: Promise<boolean> | undefined;
+    /** `true`, if loading the children failed. */
+    Error: boolean;
+    /** Incremented on every loading of the children, used to discard outdated results. */
+    Generation: number;
+};
+
+/**
+ * Custom 'expand' event for tree views. The event is dispatched before a node is expanded or
+ * collapsed, if it is canceled (`preventDefault()`), the node isn't expanded/collapsed.
+ */
+export class TreeExpandEvent<T = unknown, D extends object = {
+    /** The node. */
+    Node: T;
+    /** `true`, if the node is about to be expanded, `false` if it is about to be collapsed. */
+    Expanded: boolean;
+}> extends ACustomComponentEvent<"expand", TreeView<T>, D> { }
+
+/**
+ * Custom 'selectionchanged' event for tree views.
+ */
+export class TreeSelectionChangedEvent<T = unknown, D extends object = {
+    /** The selected nodes (see `TreeView.Selection`). */
+    Selection: T[];
+}> extends ACustomComponentEvent<"selectionchanged", TreeView<T>, D> { }
+
+/**
+ * Custom 'activate' event for tree views. The event is dispatched if a node is activated with Enter
+ * or a double click. If the event isn't canceled (`preventDefault()`), an expandable node is
+ * expanded/collapsed.
+ */
+export class TreeActivateEvent<T = unknown, D extends object = {
+    /** The node. */
+    Node: T;
+}> extends ACustomComponentEvent<"activate", TreeView<T>, D> { }
+
+/**
+ * Additional event(s) for `TreeView`.
+ */
+export interface TreeViewEventMap<T = unknown> extends HTMLElementEventMap {
+    /** A node is about to be expanded or collapsed (cancelable). */
+    "expand": TreeExpandEvent<T>;
+    /** The selected nodes changed. */
+    "selectionchanged": TreeSelectionChangedEvent<T>;
+    /** A node was activated (cancelable). */
+    "activate": TreeActivateEvent<T>;
+}
+
+/**
+ * Hierarchical tree (e.g. for file browsers or outline views) with the WAI-ARIA `tree`/`treeitem`
+ * semantics. The nodes are provided by a data provider, children are loaded (synchronously or
+ * asynchronously) when a node is expanded for the first time.
+ *
+ * The tree is rendered inside a `ScrollContainer`. Only the rows in (and near) the visible area are
+ * rendered, so all rows have the same height (see `RowHeight`). The keyboard focus stays on the tree
+ * itself (`aria-activedescendant`), the focused node is navigated with the arrow keys, Home/End,
+ * PageUp/PageDown and by typing the beginning of a label (type-ahead).
+ */
+export class TreeView<T, EventMap extends TreeViewEventMap<T> = TreeViewEventMap<T>> extends AElementComponentWithInternalUI<ScrollContainer, EventMap> {
+    protected provider: TreeDataProvider<T>;
+    protected _selectionMode: TreeSelectionMode;
+    protected _rowHeight: number;
+    protected itemsContainer: IElementWithChildrenComponent<HTMLDivElement>;
+    private roots: TreeItem<T>[] = [];
+    private items = new Map<string, TreeItem<T>>();
+    // The nodes of all expanded levels in display order.
+    private visibleItems: TreeItem<T>[] = [];
+    private selected = new Set<string>();
+    private focusedKey?: string;
+    // Start of a range selection (Shift + click/arrow keys).
+    private anchorKey?: string;
+    private rows = new Map<string, HTMLDivElement>();
+    private keysByRow = new WeakMap<Element, string>();
+    private idPrefix = `vts-tree-view-${++treeViewIdCounter}`;
+    private itemIdCounter = 0;
+    private rootLoading?: Promise<boolean>;
+    private rootGeneration = 0;
+    // A subtree is being rebuilt by `setChildren()`, updates are deferred until it is complete.
+    private rebuilding = false;
+    private typeAhead = "";
+    private typeAheadTimeout?: ReturnType<typeof setTimeout>;
+    private resizeObserver: ResizeObserver;
+
+    /**
+     * Creates a tree view and loads the root nodes.
+     * @param provider The data provider.
+     * @param selectionMode The selection mode.
+     * @param rowHeight The height of the rows in pixels.
+     */
+    constructor(provider: TreeDataProvider<T>, selectionMode: TreeSelectionMode = TreeSelectionMode.SINGLE, rowHeight: number = 24) {
+        super();
+        this.provider = provider;
+        this._rowHeight = rowHeight;
+        super.initialize()
+            .selectionMode(selectionMode);
+        void this.refresh();
+    }
+
+    /** @inheritdoc */
+    protected override buildUI(): this {
+        this.ui = new ScrollContainer(false, true)
+            .append(
+                this.itemsContainer = new Div()
+                    .addClass("tree-items")
+                    .attrib("role", "tree")
+                    .attrib("tabindex", "0")
+                    .on("keydown", (ev) => this.onKeyDown(ev))
+                    .on("click", (ev) => this.onClick(ev))
+                    .on("dblclick", (ev) => this.onDblClick(ev))
+            );
+        // Render the rows of the visible area on scrolling and resizing.
+        this.ui.DOM.addEventListener("scroll", () => this.render(), { passive: true }); // eslint-disable-line jsdoc/require-jsdoc
+        this.resizeObserver = new ResizeObserver(() => this.render());
+        this.resizeObserver.observe(this.ui.DOM);
+        return this;
+    }
+
+    /**
+     * Get the data provider.
+     */
+    public get Provider(): TreeDataProvider<T> {
+        return this.provider;
+    }
+
+    /**
+     * Get/set the selection mode.
+     */
+    public get SelectionMode(): TreeSelectionMode {
+        return this._selectionMode;
+    }
+    /** @inheritdoc */
+    public set SelectionMode(v: TreeSelectionMode) {
+        this.selectionMode(v);
+    }
+
+    /**
+     * Sets the selection mode. Switching to `SINGLE` mode keeps only the first selected node.
+     * @param selectionMode The new selection mode.
+     * @returns This instance.
+     */
+    public selectionMode(selectionMode: TreeSelectionMode): this {
+        this._selectionMode = selectionMode;
+        this.itemsContainer.attrib("aria-multiselectable", String(selectionMode === TreeSelectionMode.MULTIPLE));
+        if (selectionMode === TreeSelectionMode.SINGLE && this.selected.size > 1) {
+            const previous = [...this.selected];
+            this.selected = new Set(previous.slice(0, 1));
+            this.selectionChanged(previous);
+        }
+        return this;
+    }
+
+    /**
+     * Get/set the height of the rows in pixels.
+     */
+    public get RowHeight(): number {
+        return this._rowHeight;
+    }
+    /** @inheritdoc */
+    public set RowHeight(v: number) {
+        this.rowHeight(v);
+    }
+
+    /**
+     * Sets the height of the rows.
+     * @param rowHeight The height in pixels.
+     * @returns This instance.
+     */
+    public rowHeight(rowHeight: number): this {
+        this._rowHeight = rowHeight;
+        this.render();
+        return this;
+    }
+
+    /**
+     * Get/set the selected nodes. Only loaded nodes can be selected.
+     */
+    public get Selection(): T[] {
+        return [...this.selected].map(key => this.items.get(key)!.Node);
+    }
+    /** @inheritdoc */
+    public set Selection(v: T[]) {
+        this.selection(v);
+    }
+
+    /**
+     * Selects nodes, all other nodes are deselected.
+     * @param nodes The nodes to be selected. Nodes, that aren't loaded, are ignored. In `SINGLE`
+     * mode only the first node is selected.
+     * @returns This instance.
+     */
+    public selection(nodes: T[]): this {
+        const previous = [...this.selected];
+        const keys = nodes.map(e => this.provider.key(e)).filter(e => this.items.has(e));
+        this.selected = new Set(this._selectionMode === TreeSelectionMode.SINGLE ? keys.slice(0, 1) : keys);
+        this.anchorKey = keys[0];
+        this.selectionChanged(previous);
+        return this;
+    }
+
+    /**
+     * Get the focused node.
+     */
+    public get Focused(): T | undefined {
+        return this.focusedItem()?.Node;
+    }
+
+    /**
+     * `true`, if the root nodes are being loaded, otherwise `false`.
+     */
+    public get Loading(): boolean {
+        return this.rootLoading !== undefined;
+    }
+
+    /**
+     * Returns whether a node is expanded.
+     * @param node The node.
+     * @returns `true`, if the node is loaded and expanded, otherwise `false`.
+     */
+    public isExpanded(node: T): boolean {
+        return this.items.get(this.provider.key(node))?.Expanded ?? false;
+    }
+
+    /**
+     * Expands a node, its children are loaded if necessary. An `expand` event is dispatched.
+     * @param node The node, it must be loaded (i.e. its parent was expanded before).
+     * @returns A promise which resolves to `true`, if the node was expanded and its children are
+     * loaded, otherwise `false` (e.g. the event was canceled or loading the children failed).
+     */
+    public expand(node: T): Promise<boolean> {
+        const item = this.items.get(this.provider.key(node));
+        return item ? this.expandItem(item, true) : Promise.resolve(false);
+    }
+
+    /**
+     * Collapses a node. An `expand` event is dispatched.
+     * @param node The node.
+     * @returns This instance.
+     */
+    public collapse(node: T): this {
+        const item = this.items.get(this.provider.key(node));
+        item
+            ? this.collapseItem(item, true)
+            : undefined;
+        return this;
+    }
+
+    /**
+     * Expands a collapsed node or collapses an expanded node.
+     * @param node The node.
+     * @returns This instance.
+     */
+    public toggle(node: T): this {
+        this.isExpanded(node)
+            ? this.collapse(node)
+            : void this.expand(node);
+        return this;
+    }
+
+    /**
+     * Expands the ancestors of a node and scrolls the node into view. The node becomes the focused
+     * node.
+     * @param node The node, it must be loaded.
+     * @returns This instance.
+     */
+    public reveal(node: T): this {
+        const item = this.items.get(this.provider.key(node));
+        if (!item) {
+            return this;
+        }
+        for (let parent = item.Parent; parent; parent = parent.Parent) {
+            parent.Expanded
+                ? undefined
+                : void this.expandItem(parent, true);
+        }
+        this.isVisible(item)
+            ? this.focusItem(item)
+            : undefined;
+        return this;
+    }
+
+    /**
+     * Reloads the children of a node or the root nodes. Expanded nodes stay expanded (if they still
+     * exist), the children of nodes, that haven't been expanded yet, are loaded on expansion.
+     * @param node The node or `undefined` for reloading the whole tree.
+     * @returns A promise which resolves to `true`, if the children were loaded, otherwise `false`.
+     */
+    public refresh(node?: T): Promise<boolean> {
+        if (node === undefined) {
+            return this.loadChildren(undefined);
+        }
+        const item = this.items.get(this.provider.key(node));
+        if (!item) {
+            return Promise.resolve(false);
+        }
+        item.Node = node;
+        item.Expandable = this.provider.hasChildren(node);
+        if (!item.Children && !item.Loading) {
+            this.render();
+            return Promise.resolve(true);
+        }
+        return this.loadChildren(item);
+    }
+
+    /**
+     * Expands an item and loads its children if necessary.
+     * @param item The item.
+     * @param notify `true`, if an `expand` event is dispatched.
+     * @returns A promise which resolves to `true`, if the item was expanded and its children are
+     * loaded.
+     */
+    private expandItem(item: TreeItem<T>, notify: boolean): Promise<boolean> {
+        if (!item.Expandable) {
+            return Promise.resolve(false);
+        }
+        if (item.Expanded) {
+            return item.Loading ?? Promise.resolve(true);
+        }
+        if (notify && !this._dom.dispatchEvent(new TreeExpandEvent("expand", this, { Node: item.Node, Expanded: true }))) { // eslint-disable-line jsdoc/require-jsdoc
+            return Promise.resolve(false);
+        }
+        item.Expanded = true;
+        if (item.Children) {
+            this.update();
+            return Promise.resolve(true);
+        }
+        return item.Loading ?? this.loadChildren(item);
+    }
+
+    /**
+     * Collapses an item.
+     * @param item The item.
+     * @param notify `true`, if an `expand` event is dispatched.
+     * @returns `true`, if the item is collapsed, otherwise `false`.
+     */
+    private collapseItem(item: TreeItem<T>, notify: boolean): boolean {
+        if (!item.Expanded) {
+            return true;
+        }
+        if (notify && !this._dom.dispatchEvent(new TreeExpandEvent("expand", this, { Node: item.Node, Expanded: false }))) { // eslint-disable-line jsdoc/require-jsdoc
+            return false;
+        }
+        item.Expanded = false;
+        this.update();
+        return true;
+    }
+
+    /**
+     * Loads the children of an item or the root items.
+     * @param parent The item or `undefined` for the root items.
+     * @returns A promise which resolves to `true`, if the children were loaded, or to `false`, if
+     * loading failed or was superseded by another loading.
+     */
+    private loadChildren(parent: TreeItem<T> | undefined): Promise<boolean> {
+        const generation = parent ? ++parent.Generation : ++this.rootGeneration;
+        const outdated = (): boolean => parent // eslint-disable-line jsdoc/require-jsdoc
+            ? generation !== parent.Generation || this.items.get(parent.Key) !== parent
+            : generation !== this.rootGeneration;
+        let result: T[] | Promise<T[]>;
+        try {
+            result = this.provider.children(parent?.Node);
+        } catch {
+            this.setChildren(parent, undefined);
+            return Promise.resolve(false);
+        }
+        if (!(result instanceof Promise)) {
+            this.setChildren(parent, result);
+            return Promise.resolve(true);
+        }
+        const loading = result.then(children => {
+            if (outdated()) {
+                return false;
+            }
+            this.setChildren(parent, children);
+            return true;
+        }, () => {
+            outdated()
+                ? undefined
+                : this.setChildren(parent, undefined);
+            return false;
+        });
+        if (parent) {
+            parent.Loading = loading;
+            parent.Error = false;
+        } else {
+            this.rootLoading = loading;
+        }
+        this.update();
+        return loading;
+    }
+
+    /**
+     * Replaces the children of an item or the root items. Expanded items, that still exist, are
+     * expanded again, selected items, that no longer exist, are deselected. Expanding again can
+     * rebuild nested children (synchronous content), so the selection and the focus are reconciled
+     * once after the whole subtree has been rebuilt.
+     * @param parent The item or `undefined` for the root items.
+     * @param nodes The nodes of the children or `undefined`, if loading the children failed.
+     */
+    private setChildren(parent: TreeItem<T> | undefined, nodes: T[] | undefined): void {
+        if (this.rebuilding) {
+            this.rebuildChildren(parent, nodes);
+            return;
+        }
+        const previous = [...this.selected];
+        this.rebuilding = true;
+        try {
+            this.rebuildChildren(parent, nodes);
+        } finally {
+            this.rebuilding = false;
+        }
+        for (const key of previous) {
+            this.items.has(key)
+                ? undefined
+                : this.selected.delete(key);
+        }
+        this.update();
+        this.selectionChanged(previous);
+    }
+
+    /**
+     * Replaces the children of an item or the root items and expands the children again, that were
+     * expanded before (see `setChildren()`).
+     * @param parent The item or `undefined` for the root items.
+     * @param nodes The nodes of the children or `undefined`, if loading the children failed.
+     */
+    private rebuildChildren(parent: TreeItem<T> | undefined, nodes: T[] | undefined): void {
+        const expandedKeys = new Set<string>();
+        const release = (items: TreeItem<T>[]): void => { // eslint-disable-line jsdoc/require-jsdoc
+            for (const item of items) {
+                item.Expanded
+                    ? expandedKeys.add(item.Key)
+                    : undefined;
+                this.items.delete(item.Key);
+                item.Children
+                    ? release(item.Children)
+                    : undefined;
+            }
+        };
+        release((parent ? parent.Children : this.roots) ?? []);
+        const level = parent ? parent.Level + 1 : 1;
+        const children = (nodes ?? []).map((node, index): TreeItem<T> => {
+            const child: TreeItem<T> = {
+                /* eslint-disable jsdoc/require-jsdoc */
+                Node: node,
+                Key: this.provider.key(node),
+                Id: ++this.itemIdCounter,
+                Level: level,
+                Index: index,
+                Parent: parent,
+                Children: undefined,
+                Expandable: this.provider.hasChildren(node),
+                Expanded: false,
+                Loading: undefined,
+                Error: false,
+                Generation: 0
+                /* eslint-enable */
+            };
+            this.items.set(child.Key, child);
+            return child;
+        });
+        if (parent) {
+            parent.Children = nodes ? children : undefined;
+            parent.Loading = undefined;
+            parent.Error = !nodes;
+            // A node without children isn't expandable, a failed node can be expanded again.
+            parent.Expandable = !nodes || children.length > 0;
+            parent.Expanded = parent.Expanded && children.length > 0;
+        } else {
+            this.roots = children;
+            this.rootLoading = undefined;
+            this.ui.DOM.classList.toggle("error", !nodes);
+        }
+        for (const child of children) {
+            expandedKeys.has(child.Key)
+                ? void this.expandItem(child, false)
+                : undefined;
+        }
+    }
+
+    /**
+     * Rebuilds the list of visible items after expanding/collapsing/loading and renders the rows. If
+     * the focused item was hidden or removed, the nearest visible ancestor (or the first item)
+     * becomes the focused item.
+     */
+    private update(): void {
+        if (this.rebuilding) {
+            return;
+        }
+        this.visibleItems = [];
+        const flatten = (items: TreeItem<T>[]): void => { // eslint-disable-line jsdoc/require-jsdoc
+            for (const item of items) {
+                this.visibleItems.push(item);
+                item.Expanded && item.Children
+                    ? flatten(item.Children)
+                    : undefined;
+            }
+        };
+        flatten(this.roots);
+        let focused = this.focusedItem();
+        while (focused && !this.isVisible(focused)) {
+            focused = focused.Parent;
+        }
+        this.focusedKey = (focused ?? this.visibleItems[0])?.Key;
+        this.ui.DOM.classList.toggle("loading", this.rootLoading !== undefined);
+        this.rootLoading
+            ? this.itemsContainer.attrib("aria-busy", "true")
+            : this.itemsContainer.DOM.removeAttribute("aria-busy");
+        this.render();
+    }
+
+    /**
+     * Renders the rows in and near the visible area. Rows are reused by the key of their items, rows
+     * outside of the area are removed. The row of the focused item is always rendered, since it is
+     * referenced by `aria-activedescendant`.
+     */
+    private render(): void {
+        const rowHeight = this._rowHeight;
+        const scroller = this.ui.DOM;
+        this.itemsContainer.DOM.style.height = `${this.visibleItems.length * rowHeight}px`;
+        const first = Math.max(0, Math.floor(scroller.scrollTop / rowHeight) - OVERSCAN_ROWS);
+        const last = Math.min(this.visibleItems.length, Math.ceil((scroller.scrollTop + scroller.clientHeight) / rowHeight) + OVERSCAN_ROWS);
+        const indices = new Map<TreeItem<T>, number>();
+        for (let i = first; i < last; i++) {
+            indices.set(this.visibleItems[i], i);
+        }
+        const focused = this.focusedItem();
+        focused && !indices.has(focused)
+            ? indices.set(focused, this.visibleItems.indexOf(focused))
+            : undefined;
+        for (const [key, row] of this.rows) {
+            const item = this.items.get(key);
+            if (!item || !indices.has(item)) {
+                row.remove();
+                this.rows.delete(key);
+            }
+        }
+        for (const [item, index] of indices) {
+            let row = this.rows.get(item.Key);
+            if (!row) {
+                row = this.createRow(item);
+                this.rows.set(item.Key, row);
+                this.itemsContainer.DOM.append(row);
+            }
+            this.syncRow(row, item, index);
+        }
+        const focusedRow = focused ? this.rows.get(focused.Key) : undefined;
+        focusedRow
+            ? this.itemsContainer.attrib("aria-activedescendant", focusedRow.id)
+            : this.itemsContainer.DOM.removeAttribute("aria-activedescendant");
+    }
+
+    /**
+     * Creates the row for an item.
+     * @param item The item.
+     * @returns The row.
+     */
+    private createRow(item: TreeItem<T>): HTMLDivElement {
+        const row = document.createElement("div");
+        row.setAttribute("role", "treeitem");
+        const twisty = document.createElement("span");
+        twisty.classList.add("twisty");
+        twisty.setAttribute("aria-hidden", "true");
+        const label = document.createElement("span");
+        label.classList.add("label");
+        row.append(twisty, label);
+        this.keysByRow.set(row, item.Key);
+        return row;
+    }
+
+    /**
+     * Updates position, state and label of a row.
+     * @param row The row.
+     * @param item The item of the row.
+     * @param index The index of the item in the list of visible items.
+     */
+    private syncRow(row: HTMLDivElement, item: TreeItem<T>, index: number): void {
+        const siblings = item.Parent ? item.Parent.Children! : this.roots;
+        row.id = `${this.idPrefix}-${item.Id}`;
+        row.className = "";
+        row.classList.add(
+            "tree-item",
+            ...(item.Expandable ? ["expandable"] : []),
+            ...(item.Expandable && item.Expanded ? ["expanded"] : []),
+            ...(this.selected.has(item.Key) ? ["selected"] : []),
+            ...(item.Key === this.focusedKey ? ["focused"] : []),
+            ...(item.Loading ? ["loading"] : []),
+            ...(item.Error ? ["error"] : []),
+            ...(this.provider.classes?.(item.Node) ?? [])
+        );
+        row.style.top = `${index * this._rowHeight}px`;
+        row.style.height = `${this._rowHeight}px`;
+        row.style.setProperty("--vts-tree-level", String(item.Level - 1));
+        row.setAttribute("aria-level", String(item.Level));
+        row.setAttribute("aria-setsize", String(siblings.length));
+        row.setAttribute("aria-posinset", String(item.Index + 1));
+        row.setAttribute("aria-selected", String(this.selected.has(item.Key)));
+        item.Expandable
+            ? row.setAttribute("aria-expanded", String(item.Expanded))
+            : row.removeAttribute("aria-expanded");
+        item.Loading
+            ? row.setAttribute("aria-busy", "true")
+            : row.removeAttribute("aria-busy");
+        const label = <HTMLSpanElement>row.lastElementChild;
+        const text = this.provider.label(item.Node);
+        label.textContent !== text
+            ? label.textContent = text
+            : undefined;
+    }
+
+    /**
+     * Returns the focused item.
+     * @returns The item or `undefined`, if the tree is empty.
+     */
+    private focusedItem(): TreeItem<T> | undefined {
+        return this.focusedKey === undefined ? undefined : this.items.get(this.focusedKey);
+    }
+
+    /**
+     * Returns whether all ancestors of an item are expanded.
+     * @param item The item.
+     * @returns `true`, if the item is visible, otherwise `false`.
+     */
+    private isVisible(item: TreeItem<T>): boolean {
+        for (let parent = item.Parent; parent; parent = parent.Parent) {
+            if (!parent.Expanded) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Makes an item the focused item and scrolls it into view.
+     * @param item The item, it must be visible.
+     */
+    private focusItem(item: TreeItem<T>): void {
+        this.focusedKey = item.Key;
+        const top = this.visibleItems.indexOf(item) * this._rowHeight;
+        const scroller = this.ui.DOM;
+        if (top < scroller.scrollTop) {
+            this.ui.scroll({ top: top }); // eslint-disable-line jsdoc/require-jsdoc
+        } else if (top + this._rowHeight > scroller.scrollTop + scroller.clientHeight) {
+            this.ui.scroll({ top: top + this._rowHeight - scroller.clientHeight }); // eslint-disable-line jsdoc/require-jsdoc
+        }
+        this.render();
+    }
+
+    /**
+     * Moves the focus to a visible item. In `SINGLE` mode the selection follows the focus.
+     * @param index The index of the item in the list of visible items, the index is clamped.
+     * @param extend `true`, if the selection is extended to the item (`MULTIPLE` mode only).
+     */
+    private moveFocus(index: number, extend: boolean): void {
+        const item = this.visibleItems[Math.max(0, Math.min(index, this.visibleItems.length - 1))];
+        if (!item) {
+            return;
+        }
+        this.focusItem(item);
+        if (this._selectionMode === TreeSelectionMode.SINGLE) {
+            this.selectItem(item, false, false);
+        } else if (extend) {
+            this.selectItem(item, false, true);
+        }
+    }
+
+    /**
+     * Selects an item.
+     * @param item The item.
+     * @param toggle `true`, if the selection state of the item is toggled and the other items stay
+     * selected (`MULTIPLE` mode only).
+     * @param range `true`, if the items from the anchor to the item are selected (`MULTIPLE` mode
+     * only). If `toggle` is also `true`, the range is added to the selection.
+     */
+    private selectItem(item: TreeItem<T>, toggle: boolean, range: boolean): void {
+        const previous = [...this.selected];
+        const anchor = this.anchorKey === undefined ? undefined : this.items.get(this.anchorKey);
+        if (this._selectionMode === TreeSelectionMode.MULTIPLE && range && anchor && this.isVisible(anchor)) {
+            const from = this.visibleItems.indexOf(anchor);
+            const to = this.visibleItems.indexOf(item);
+            const keys = this.visibleItems.slice(Math.min(from, to), Math.max(from, to) + 1).map(e => e.Key);
+            this.selected = new Set(toggle ? [...this.selected, ...keys] : keys);
+        } else if (this._selectionMode === TreeSelectionMode.MULTIPLE && toggle) {
+            this.selected.has(item.Key)
+                ? this.selected.delete(item.Key)
+                : this.selected.add(item.Key);
+            this.anchorKey = item.Key;
+        } else {
+            this.selected = new Set([item.Key]);
+            this.anchorKey = item.Key;
+        }
+        this.selectionChanged(previous);
+    }
+
+    /**
+     * Renders the rows and dispatches a `selectionchanged` event, if the selection changed.
+     * @param previous The keys of the previously selected items.
+     */
+    private selectionChanged(previous: string[]): void {
+        if (previous.length === this.selected.size && previous.every(e => this.selected.has(e))) {
+            return;
+        }
+        this.render();
+        this._dom.dispatchEvent(new TreeSelectionChangedEvent("selectionchanged", this, { Selection: this.Selection })); // eslint-disable-line jsdoc/require-jsdoc
+    }
+
+    /**
+     * Activates an item, an `activate` event is dispatched. If the event isn't canceled, an
+     * expandable item is expanded/collapsed.
+     * @param item The item.
+     */
+    private activateItem(item: TreeItem<T>): void {
+        if (!this._dom.dispatchEvent(new TreeActivateEvent("activate", this, { Node: item.Node })) || !item.Expandable) { // eslint-disable-line jsdoc/require-jsdoc
+            return;
+        }
+        item.Expanded
+            ? this.collapseItem(item, true)
+            : void this.expandItem(item, true);
+    }
+
+    /**
+     * Moves the focus to the next visible item whose label starts with the typed characters.
+     * Typing the same character repeatedly cycles through the items starting with this character.
+     * @param char The typed character.
+     */
+    private typeAheadSearch(char: string): void {
+        clearTimeout(this.typeAheadTimeout);
+        this.typeAheadTimeout = setTimeout(() => this.typeAhead = "", TYPE_AHEAD_TIMEOUT);
+        this.typeAhead += char.toLocaleLowerCase();
+        const repeated = [...this.typeAhead].every(e => e === this.typeAhead[0]);
+        const search = repeated ? this.typeAhead[0] : this.typeAhead;
+        const focused = this.focusedItem();
+        // A new search starts after the focused item, a continued search includes it.
+        const start = (focused ? this.visibleItems.indexOf(focused) : -1) + (search.length === 1 ? 1 : 0);
+        const count = this.visibleItems.length;
+        for (let i = 0; i < count; i++) {
+            const index = (start + i + count) % count;
+            if (this.provider.label(this.visibleItems[index].Node).toLocaleLowerCase().startsWith(search)) {
+                this.moveFocus(index, false);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Returns the item of the row that is the target of an event.
+     * @param ev The event.
+     * @returns The item or `undefined`, if the target isn't inside of a row.
+     */
+    private itemOfEvent(ev: Event): TreeItem<T> | undefined {
+        const row = ev.target instanceof Element ? ev.target.closest(".tree-item") : null;
+        const key = row ? this.keysByRow.get(row) : undefined;
+        return key === undefined ? undefined : this.items.get(key);
+    }
+
+    /**
+     * Handles the keyboard navigation (see WAI-ARIA tree view pattern).
+     * @param ev The keyboard event.
+     */
+    private onKeyDown(ev: KeyboardEvent): void {
+        const focused = this.focusedItem();
+        if (!focused) {
+            return;
+        }
+        const index = this.visibleItems.indexOf(focused);
+        const multiple = this._selectionMode === TreeSelectionMode.MULTIPLE;
+        const ctrl = ev.ctrlKey || ev.metaKey;
+        const page = Math.max(1, Math.floor(this.ui.DOM.clientHeight / this._rowHeight) - 1);
+        switch (ev.key) {
+            case "ArrowDown":
+                this.moveFocus(index + 1, ev.shiftKey);
+                break;
+            case "ArrowUp":
+                this.moveFocus(index - 1, ev.shiftKey);
+                break;
+            case "PageDown":
+                this.moveFocus(index + page, ev.shiftKey);
+                break;
+            case "PageUp":
+                this.moveFocus(index - page, ev.shiftKey);
+                break;
+            case "Home":
+                this.moveFocus(0, ev.shiftKey);
+                break;
+            case "End":
+                this.moveFocus(this.visibleItems.length - 1, ev.shiftKey);
+                break;
+            case "ArrowRight":
+                if (focused.Expandable && !focused.Expanded) {
+                    void this.expandItem(focused, true);
+                } else if (focused.Expanded && focused.Children?.length) {
+                    this.moveFocus(index + 1, false);
+                }
+                break;
+            case "ArrowLeft":
+                if (focused.Expanded) {
+                    this.collapseItem(focused, true);
+                } else if (focused.Parent) {
+                    this.moveFocus(this.visibleItems.indexOf(focused.Parent), false);
+                }
+                break;
+            case "Enter":
+                this.activateItem(focused);
+                break;
+            case " ":
+                this.selectItem(focused, true, ev.shiftKey);
+                break;
+            case "*":
+                // Expands all siblings of the focused item.
+                for (const sibling of focused.Parent ? focused.Parent.Children! : this.roots) {
+                    void this.expandItem(sibling, true);
+                }
+                break;
+            default:
+                if (multiple && ctrl && ev.key.toLowerCase() === "a") {
+                    const previous = [...this.selected];
+                    this.selected = new Set(this.visibleItems.map(e => e.Key));
+                    this.selectionChanged(previous);
+                } else if (ev.key.length === 1 && !ctrl && !ev.altKey) {
+                    this.typeAheadSearch(ev.key);
+                } else {
+                    return;
+                }
+        }
+        ev.preventDefault();
+    }
+
+    /**
+     * Focuses and selects the clicked item, a click on the twisty expands/collapses the item.
+     * @param ev The mouse event.
+     */
+    private onClick(ev: MouseEvent): void {
+        const item = this.itemOfEvent(ev);
+        if (!item) {
+            return;
+        }
+        this.focusItem(item);
+        if (ev.target instanceof Element && ev.target.classList.contains("twisty")) {
+            item.Expanded
+                ? this.collapseItem(item, true)
+                : void this.expandItem(item, true);
+            return;
+        }
+        const multiple = this._selectionMode === TreeSelectionMode.MULTIPLE;
+        this.selectItem(item, multiple && (ev.ctrlKey || ev.metaKey), multiple && ev.shiftKey);
+    }
+
+    /**
+     * Activates the double clicked item.
+     * @param ev The mouse event.
+     */
+    private onDblClick(ev: MouseEvent): void {
+        const item = this.itemOfEvent(ev);
+        item && !(ev.target instanceof Element && ev.target.classList.contains("twisty"))
+            ? this.activateItem(item)
+            : undefined;
+    }
+
+    /**
+     * Removes _all_ child components from this component (`this.ui`), including the internal
+     * scroll container. The tree view can't be used afterwards.
+     * @returns This instance.
+     */
+    public override clear(): this {
+        this.resizeObserver.disconnect();
+        clearTimeout(this.typeAheadTimeout);
+        this.rootGeneration++;
+        super.clear();
+        return this;
+    }
+}
+
+/**
+ * Factory for TreeView components.
+ */
+export class TreeViewFactory<T> extends ComponentFactory<TreeView<unknown>> {
+    /**
+     * Create, set up and return TreeView component.
+     * @param provider The data provider.
+     * @param selectionMode The selection mode.
+     * @param rowHeight The height of the rows in pixels.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns TreeView component.
+     */
+    public treeView<N>(provider: TreeDataProvider<N>, selectionMode?: TreeSelectionMode, rowHeight?: number, data?: T): TreeView<N> {
+        return <TreeView<N>>this.setupComponent(new TreeView(provider, selectionMode, rowHeight), data);
+    }
+}
@@ -0,0 +1,449 @@
+import { ACustomComponentEvent, AElementComponentWithInternalUI, ComponentFactory, IElementWithChildrenComponent, INodeComponent } from "@vanilla-ts/core";
+import { Button, Div } from "@vanilla-ts/dom";
+import { Tab, TabGroup } from "./TabGroup.js";
+
+
+/**
+ * A function which validates a step of a wizard before the wizard proceeds to the next step. The
+ * function can validate synchronously or return a promise. A thrown error or a rejected promise is
+ * considered as failed validation.
+ */
+export type WizardStepValidator = (step: WizardStep) => boolean | Promise<boolean>;
+
+/**
+ * Captions for the buttons of a wizard.
+ */
+export type WizardLabels = {
+    /** Caption for the back button. */
+    Back: string;
+    /** Caption for the next button. */
+    Next: string;
+    /** Caption for the skip button (optional steps only). */
+    Skip: string;
+    /** Caption for the next button on the last step. */
+    Finish: string;
+    /** Caption for the cancel button. */
+    Cancel: string;
+};
+
+/**
+ * Custom 'stepchange' event for wizards.
+ */
+export class WizardStepChangeEvent<D extends object = {
+    /** The new current step. */
+    Step: WizardStep;
+    /** The previous step. */
+    Previous: WizardStep;
+    /** The index of the new current step. */
+    Index: number;
+    /** `true`, if `Previous` was skipped, otherwise `false`. */
+    Skipped: boolean;
+}> extends ACustomComponentEvent<"stepchange", Wizard, D> { }
+
+/**
+ * Custom 'finish' event for wizards.
+ */
+export class WizardFinishEvent<D extends object = {
+    /** The optional steps, that were skipped. */
+    Skipped: WizardStep[];
+}> extends ACustomComponentEvent<"finish", Wizard, D> { }
+
+/**
+ * Custom 'wizardcancel' event for wizards.
+ */
+export class WizardCancelEvent<D extends object = {
+    /** The current step. */
+    Step: WizardStep | undefined;
+}> extends ACustomComponentEvent<"wizardcancel", Wizard, D> { }
+
+/**
+ * Additional event(s) for `Wizard`.
+ */
+export interface WizardEventMap extends HTMLElementEventMap {
+    /** The current step changed (`next()`, `skip()`, `previous()`, `backTo()`). */
+    "stepchange": WizardStepChangeEvent;
+    /** The last step was validated (or skipped), the wizard is finished (see `Finished`). */
+    "finish": WizardFinishEvent;
+    /** The wizard was canceled by the user (cancel button or `cancel()`). */
+    "wizardcancel": WizardCancelEvent;
+}
+
+/**
+ * A step of a wizard. Steps are tabs, so all tab features for content are available (e.g.
+ * `ITabAware` components).
+ */
+export class WizardStep extends Tab {
+    protected _optional: boolean;
+    protected _validator?: WizardStepValidator;
+
+    /**
+     * Creates a step.
+     * @param title The title of the step, displayed in the step indicator of the wizard.
+     * @param content The content for the step (components or string, in the case of a string, the
+     * content is a `P` component with the string as the content).
+     * @param optional If `true`, the step can be skipped without validation.
+     * @param validator An optional function, that validates the step before the wizard proceeds.
+     */
+    constructor(title: string, content?: INodeComponent<Node>[] | string, optional: boolean = false, validator?: WizardStepValidator) {
+        super(title, content, false);
+        this._optional = optional;
+        this._validator = validator;
+    }
+
+    /**
+     * `true`, if the step can be skipped, otherwise `false`.
+     */
+    public get Optional(): boolean {
+        return this._optional;
+    }
+
+    /**
+     * Get/set the function, that validates the step before the wizard proceeds.
+     */
+    public get Validator(): WizardStepValidator | undefined {
+        return this._validator;
+    }
+    /** @inheritdoc */
+    public set Validator(v: WizardStepValidator | undefined) {
+        this.validator(v);
+    }
+
+    /**
+     * Sets the function, that validates the step before the wizard proceeds.
+     * @param validator The validator or `undefined`, if the step is always valid.
+     * @returns This instance.
+     */
+    public validator(validator?: WizardStepValidator): this {
+        this._validator = validator;
+        return this;
+    }
+}
+
+/**
+ * Multi-step flow with a step indicator and back/skip/next/cancel buttons. The steps are the tabs of
+ * an internal tab group (in keep-alive mode, without tab headers), so the content of a step is
+ * preserved when navigating back. Progression is linear: `next()` validates the current step before
+ * proceeding, optional steps can be skipped with `skip()`. Navigating back is always possible
+ * (`previous()`, `backTo()` or a click on a previous step in the step indicator).
+ */
+export class Wizard<EventMap extends WizardEventMap = WizardEventMap> extends AElementComponentWithInternalUI<Div, EventMap> {
+    protected tabGroup: TabGroup;
+    protected indicator: IElementWithChildrenComponent<HTMLDivElement>;
+    protected buttons: IElementWithChildrenComponent<HTMLDivElement>;
+    protected cancelBtn: Button;
+    protected backBtn: Button;
+    protected skipBtn: Button;
+    protected nextBtn: Button;
+    protected _labels: WizardLabels;
+    protected completed = new Set<WizardStep>();
+    protected skipped = new Set<WizardStep>();
+    private validating = false;
+    private finished = false;
+    // Activation of steps by the wizard itself, any other activation of a tab is prevented.
+    private navigating = false;
+
+    /**
+     * Creates a wizard without steps.
+     * @param labels The captions for the buttons.
+     */
+    constructor(labels: WizardLabels = { Back: "Back", Next: "Next", Skip: "Skip", Finish: "Finish", Cancel: "Cancel" }) { // eslint-disable-line jsdoc/require-jsdoc
+        super();
+        super.initialize()
+            .labels(labels);
+    }
+
+    /** @inheritdoc */
+    protected override buildUI(): this {
+        this.ui = new Div()
+            .append(
+                // Rebuilt by `syncUI()`.
+                this.indicator = new Div()
+                    .addClass("step-indicator")
+                    .attrib("role", "list"),
+                this.tabGroup = new TabGroup()
+                    .keepAlive(true)
+                    .on("beforeactivate", (ev) => {
+                        this.navigating
+                            ? undefined
+                            : ev.preventDefault();
+                    }),
+                this.buttons = new Div()
+                    .addClass("wizard-buttons")
+                    .append(
+                        this.cancelBtn = new Button("")
+                            .addClass("cancel")
+                            .on("click", () => this.cancel()),
+                        this.backBtn = new Button("")
+                            .addClass("back")
+                            .on("click", () => this.previous()),
+                        this.skipBtn = new Button("")
+                            .addClass("skip")
+                            .on("click", () => this.skip()),
+                        this.nextBtn = new Button("")
+                            .addClass("next")
+                            .on("click", () => void this.next())
+                    )
+            );
+        return this;
+    }
+
+    /**
+     * Get the steps of the wizard.
+     */
+    public get Steps(): WizardStep[] {
+        return <WizardStep[]>this.tabGroup.Tabs;
+    }
+
+    /**
+     * Get the current step.
+     */
+    public get Current(): WizardStep | undefined {
+        return <WizardStep | undefined>this.tabGroup.Active;
+    }
+
+    /**
+     * Get the index of the current step (`-1`, if the wizard has no steps).
+     */
+    public get CurrentIndex(): number {
+        const current = this.Current;
+        return current ? this.tabGroup.Tabs.indexOf(current) : -1;
+    }
+
+    /**
+     * `true`, if the current step is being validated, otherwise `false`.
+     */
+    public get Validating(): boolean {
+        return this.validating;
+    }
+
+    /**
+     * `true`, if the wizard is finished, otherwise `false`. A finished wizard can't proceed any
+     * more, going back to a previous step resumes it.
+     */
+    public get Finished(): boolean {
+        return this.finished;
+    }
+
+    /**
+     * Get/set the captions for the buttons. Returns a _copy_ of the current captions!
+     */
+    public get Labels(): WizardLabels {
+        return { ...this._labels };
+    }
+    /** @inheritdoc */
+    public set Labels(v: WizardLabels) {
+        this.labels(v);
+    }
+
+    /**
+     * Sets new captions for the buttons. No reference to the given labels object is held!
+     * @param labels The new captions.
+     * @returns This instance.
+     */
+    public labels(labels: WizardLabels): this {
+        this._labels = {
+            /* eslint-disable jsdoc/require-jsdoc */
+            Back: labels.Back ?? "Back",
+            Next: labels.Next ?? "Next",
+            Skip: labels.Skip ?? "Skip",
+            Finish: labels.Finish ?? "Finish",
+            Cancel: labels.Cancel ?? "Cancel"
+            /* eslint-enable */
+        };
+        this.cancelBtn.text(this._labels.Cancel);
+        this.backBtn.text(this._labels.Back);
+        this.skipBtn.text(this._labels.Skip);
+        this.syncUI();
+        return this;
+    }
+
+    /**
+     * Appends steps to the wizard. If the wizard had no steps before, the first step becomes the
+     * current step.
+     * @param steps The steps to be appended.
+     * @returns This instance.
+     */
+    public append(...steps: WizardStep[]): this {
+        this.navigating = true;
+        this.tabGroup.append(...steps);
+        this.navigating = false;
+        this.syncUI();
+        return this;
+    }
+
+    /**
+     * Validates the current step and proceeds to the next step. On the last step, the wizard is
+     * finished (a `finish` event is dispatched).
+     * @returns A promise which resolves to `true`, if the wizard proceeded or finished, or to
+     * `false`, if validation failed, another validation is pending or the wizard is already
+     * finished.
+     */
+    public next(): Promise<boolean> {
+        const step = this.Current;
+        if (!step || this.validating || this.finished) {
+            return Promise.resolve(false);
+        }
+        this.validating = true;
+        this.syncUI();
+        return Promise.resolve()
+            .then(() => step.Validator ? step.Validator(step) : true)
+            .then(valid => valid, () => false)
+            .then(valid => {
+                this.validating = false;
+                // The current step may have been changed in the meantime (e.g. by `previous()`).
+                if (!valid || step !== this.Current) {
+                    this.syncUI();
+                    return false;
+                }
+                this.completed.add(step);
+                this.skipped.delete(step);
+                this.proceed(step, false);
+                return true;
+            });
+    }
+
+    /**
+     * Skips the current step without validation, if it is optional.
+     * @returns This instance.
+     */
+    public skip(): this {
+        const step = this.Current;
+        if (step?.Optional && !this.validating && !this.finished) {
+            this.completed.delete(step);
+            this.skipped.add(step);
+            this.proceed(step, true);
+        }
+        return this;
+    }
+
+    /**
+     * Goes back to the previous step. The content of the current step is preserved.
+     * @returns This instance.
+     */
+    public previous(): this {
+        return this.backTo(this.CurrentIndex - 1);
+    }
+
+    /**
+     * Goes back to a previous step. The content of all steps is preserved, a finished wizard is
+     * resumed.
+     * @param index The index of the step, it must be lower than `CurrentIndex`.
+     * @returns This instance.
+     */
+    public backTo(index: number): this {
+        const current = this.Current;
+        if (current && index >= 0 && index < this.CurrentIndex) {
+            this.finished = false;
+            this.show(index, current, false);
+        }
+        return this;
+    }
+
+    /**
+     * Cancels the wizard, a `wizardcancel` event is dispatched. The wizard itself isn't changed,
+     * closing it is up to the app.
+     * @returns This instance.
+     */
+    public cancel(): this {
+        this._dom.dispatchEvent(new WizardCancelEvent("wizardcancel", this, { Step: this.Current })); // eslint-disable-line jsdoc/require-jsdoc
+        return this;
+    }
+
+    /**
+     * Proceeds from a validated or skipped step to the next step or finishes the wizard.
+     * @param step The validated or skipped step.
+     * @param skipped `true`, if the step was skipped.
+     */
+    protected proceed(step: WizardStep, skipped: boolean): void {
+        const index = this.Steps.indexOf(step);
+        if (index < this.Steps.length - 1) {
+            this.show(index + 1, step, skipped);
+        } else {
+            this.finished = true;
+            this.syncUI();
+            this._dom.dispatchEvent(new WizardFinishEvent("finish", this, { Skipped: this.Steps.filter(e => this.skipped.has(e)) })); // eslint-disable-line jsdoc/require-jsdoc
+        }
+    }
+
+    /**
+     * Makes a step the current step and dispatches a `stepchange` event.
+     * @param index The index of the step.
+     * @param previous The previous step.
+     * @param skipped `true`, if `previous` was skipped.
+     */
+    protected show(index: number, previous: WizardStep, skipped: boolean): void {
+        const step = this.Steps[index];
+        this.navigating = true;
+        this.tabGroup.active(step);
+        this.navigating = false;
+        this.syncUI();
+        this._dom.dispatchEvent(new WizardStepChangeEvent("stepchange", this, { Step: step, Previous: previous, Index: index, Skipped: skipped })); // eslint-disable-line jsdoc/require-jsdoc
+    }
+
+    /**
+     * Updates the step indicator and the buttons according to the current step.
+     */
+    protected syncUI(): void {
+        const steps = this.Steps;
+        const current = this.CurrentIndex;
+        this.indicator.clear();
+        this.indicator.append(...steps.map((step, i) => {
+            const item = new Div()
+                .attrib("role", "listitem")
+                .append(
+                    // Only previous steps can be selected.
+                    new Button(step.Title)
+                        .disabled(i >= current || this.validating)
+                        .on("click", () => this.backTo(i))
+                );
+            i === current
+                ? item.addClass("active").attrib("aria-current", "step")
+                : undefined;
+            this.completed.has(step) ? item.addClass("completed") : undefined;
+            this.skipped.has(step) ? item.addClass("skipped") : undefined;
+            step.Optional ? item.addClass("optional") : undefined;
+            return item;
+        }));
+        this.ui.DOM.classList.toggle("validating", this.validating);
+        this.backBtn.disabled(current <= 0 || this.validating);
+        this.skipBtn.DOM.hidden = !steps[current]?.Optional;
+        this.skipBtn.disabled(this.validating || this.finished);
+        this.nextBtn
+            .text(current === steps.length - 1 ? this._labels.Finish : this._labels.Next)
+            .disabled(current < 0 || this.validating || this.finished);
+    }
+}
+
+/**
+ * Factory for Wizard components.
+ */
+export class WizardFactory<T> extends ComponentFactory<Wizard> {
+    /**
+     * Create, set up and return Wizard component.
+     * @param labels The captions for the buttons.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns Wizard component.
+     */
+    public wizard(labels?: WizardLabels, data?: T): Wizard {
+        return this.setupComponent(new Wizard(labels), data);
+    }
+}
+
+/**
+ * Factory for WizardStep components.
+ */
+export class WizardStepFactory<T> extends ComponentFactory<WizardStep> {
+    /**
+     * Create, set up and return WizardStep component.
+     * @param title The title of the step, displayed in the step indicator of the wizard.
+     * @param content The content for the step (components or string, in the case of a string, the
+     * content is a `P` component with the string as the content).
+     * @param optional If `true`, the step can be skipped without validation.
+     * @param validator An optional function, that validates the step before the wizard proceeds.
+     * @param data Optional arbitrary data passed to the `setupComponent()` function of the factory.
+     * @returns WizardStep component.
+     */
+    public wizardStep(title: string, content?: INodeComponent<Node>[] | string, optional?: boolean, validator?: WizardStepValidator, data?: T): WizardStep {
+        return this.setupComponent(new WizardStep(title, content, optional, validator), data);
+    }
+}
@@ -1,4 +1,7 @@
+export * from "./Accordion.js";
 export * from "./DisclosureContainer.js";
+export * from "./DockingLayout.js";
+export * from "./Drawer.js";
 export * from "./LabeledCheckbox.js";
 export * from "./LabeledComponent.js";
 export * from "./LabeledContainer.js";
@@ -10,5 +13,11 @@ export * from "./LabeledSelectInput.js";
 export * from "./LabeledTemporalInput.js";
 export * from "./LabeledTextArea.js";
 export * from "./LabeledTextInput.js";
+export * from "./LazyContent.js";
+export * from "./LazyDisclosureContainer.js";
+export * from "./LazyTab.js";
 export * from "./ScrollContainer.js";
 export * from "./TabGroup.js";
+export * from "./TabGroupBinding.js";
+export * from "./TreeView.js";
+export * from "./Wizard.js";